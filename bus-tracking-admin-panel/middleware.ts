@@ -1,38 +1,178 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import {
+  AUTH_COOKIE,
+  REFRESH_ENDPOINT,
+  SESSION_EXPIRES_COOKIE,
+  verifyAuthToken,
+  withForwardedClaims,
+} from '@/lib/auth';
+import type { JwtClaims } from '@/lib/jwt';
+import {
+  PERMISSION_RULES,
+  canAccessRoute,
+  getRolesFromClaims,
+  rulesForTenant,
+} from '@/lib/permissions';
+import {
+  ResolvedTenant,
+  TENANT_HEADER,
+  getTenantConfig,
+  isTenantAllowed,
+  resolveTenant,
+  withTenantHeader,
+} from '@/lib/tenant';
 
 // Add paths that don't require authentication
 const publicPaths = [
   '/login',
   '/api/auth/login',
+  REFRESH_ENDPOINT,
   '/_next',
   '/favicon.ico',
+  // JWKS documents served by the app itself
+  '/.well-known',
 ];
 
-export function middleware(request: NextRequest) {
+// Keep the tenant's path prefix on URLs we send the user to
+function tenantUrl(path: string, request: NextRequest, tenant: ResolvedTenant | null) {
+  const prefix = tenant?.source === 'path' ? `/${tenant.tenantId}` : '';
+  return new URL(prefix + path, request.url);
+}
+
+// Continue with verified claims and the tenant forwarded to server components.
+// Path-prefixed tenants are rewritten to the unprefixed route.
+function next(request: NextRequest, claims: JwtClaims | null, tenant: ResolvedTenant | null) {
+  const headers = withTenantHeader(
+    withForwardedClaims(request.headers, claims),
+    tenant?.tenantId ?? null
+  );
+  return tenant?.source === 'path'
+    ? NextResponse.rewrite(new URL(tenant.pathname + request.nextUrl.search, request.url), {
+        request: { headers },
+      })
+    : NextResponse.next({ request: { headers } });
+}
+
+// Send the user to log in, remembering where they were going and why
+function redirectToLogin(request: NextRequest, tenant: ResolvedTenant | null, reason?: string) {
+  const loginUrl = tenantUrl('/login', request, tenant);
+  // Store the current URL to redirect back after login
+  loginUrl.searchParams.set('callbackUrl', request.nextUrl.pathname);
+  if (reason) {
+    loginUrl.searchParams.set('reason', reason);
+  }
+  return NextResponse.redirect(loginUrl);
+}
+
+// Expired pages go through the refresh route, which falls back to the login page
+function renewSession(request: NextRequest) {
+  const renewUrl = new URL(REFRESH_ENDPOINT, request.url);
+  renewUrl.searchParams.set('callbackUrl', request.nextUrl.pathname + request.nextUrl.search);
+  return NextResponse.redirect(renewUrl);
+}
+
+// API callers renew through the session hook, so they get a 401 instead of a redirect
+function unauthorized(reason: string) {
+  return NextResponse.json({ error: 'Unauthorized', reason }, { status: 401 });
+}
+
+// Tenant IDs come from the configured list, so the link needs no escaping
+const forbiddenPage = (dashboardPath: string) => `<!doctype html>
+<html lang="en">
+  <head><meta charset="utf-8"><title>Access denied</title></head>
+  <body>
+    <h1>Access denied</h1>
+    <p>Your account does not have permission to view this page.</p>
+    <p><a href="${dashboardPath}">Back to the dashboard</a></p>
+  </body>
+</html>`;
+
+// API callers get a JSON error; pages get a plain 403 page
+function forbidden(request: NextRequest, pathname: string, tenant: ResolvedTenant | null) {
+  if (pathname.startsWith('/api/')) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+  return new NextResponse(forbiddenPage(tenantUrl('/dashboard', request, tenant).pathname), {
+    status: 403,
+    headers: { 'Content-Type': 'text/html; charset=utf-8' },
+  });
+}
+
+export async function middleware(request: NextRequest) {
+  const tenant = resolveTenant({
+    hostname: request.nextUrl.hostname,
+    pathname: request.nextUrl.pathname,
+    headerTenant: request.headers.get(TENANT_HEADER),
+  });
+  // Routes and permissions are matched without the tenant prefix
+  const pathname = tenant?.pathname ?? request.nextUrl.pathname;
+
   // Check if the path is public
-  const isPublicPath = publicPaths.some(path => 
-    request.nextUrl.pathname.startsWith(path)
+  const isPublicPath = publicPaths.some(path =>
+    pathname.startsWith(path)
   );
 
+  // Public assets never need the token checked
+  if (isPublicPath && pathname !== '/login') {
+    return next(request, null, tenant);
+  }
+
+  const isApiPath = pathname.startsWith('/api/');
+
   // Get the token from the cookies
-  const token = request.cookies.get('auth_token');
+  const token = request.cookies.get(AUTH_COOKIE)?.value;
+
+  // If the path is not public and there's no token, redirect to login, unless
+  // the session cookie says there is still a session the refresh route can renew
+  if (!token) {
+    if (isPublicPath) return next(request, null, tenant);
+    if (isApiPath) return unauthorized('missing');
+    return request.cookies.has(SESSION_EXPIRES_COOKIE)
+      ? renewSession(request)
+      : redirectToLogin(request, tenant);
+  }
+
+  const result = await verifyAuthToken(token);
 
-  // If the path is not public and there's no token, redirect to login
-  if (!isPublicPath && !token) {
-    const loginUrl = new URL('/login', request.url);
-    // Store the current URL to redirect back after login
-    loginUrl.searchParams.set('callbackUrl', request.nextUrl.pathname);
-    return NextResponse.redirect(loginUrl);
+  if (!result.valid) {
+    const response = isPublicPath
+      ? next(request, null, tenant)
+      : isApiPath
+        ? unauthorized(result.reason)
+        : result.reason === 'expired'
+          ? renewSession(request)
+          : redirectToLogin(request, tenant, result.reason);
+    // A bad token is dropped; an expired one is kept for renewal, and a
+    // configuration failure leaves the cookie alone
+    if (result.reason !== 'config' && result.reason !== 'expired') {
+      response.cookies.delete(AUTH_COOKIE);
+    }
+    return response;
   }
 
-  // If we're on the login page and have a token, redirect to dashboard
-  if (request.nextUrl.pathname === '/login' && token) {
-    const dashboardUrl = new URL('/dashboard', request.url);
+  // If we're on the login page and have a valid token, redirect to dashboard
+  if (pathname === '/login') {
+    const dashboardUrl = tenantUrl('/dashboard', request, tenant);
     return NextResponse.redirect(dashboardUrl);
   }
 
-  return NextResponse.next();
+  // With tenancy on, every page belongs to an agency the token was issued for
+  if (!tenant && getTenantConfig().tenants.length > 0) {
+    return forbidden(request, pathname, tenant);
+  }
+  if (tenant && !isTenantAllowed(result.claims, tenant.tenantId)) {
+    return forbidden(request, pathname, tenant);
+  }
+
+  // Enforce the route-permission map with the roles the token grants in this tenant
+  const tenantId = tenant?.tenantId ?? null;
+  const roles = getRolesFromClaims(result.claims, tenantId);
+  if (!canAccessRoute(pathname, roles, rulesForTenant(PERMISSION_RULES, tenantId))) {
+    return forbidden(request, pathname, tenant);
+  }
+
+  return next(request, result.claims, tenant);
 }
 
 // Configure which paths should be handled by the middleware
@@ -0,0 +1,593 @@
+#!/usr/bin/env node
+/**
+ * Local fleet simulator that stands in for the real-time backend.
+ *
+ * Runs a WebSocket server speaking the `{event, data}` protocol used by
+ * useWebSocketSubscription and useFleetSync, and moves virtual buses along
+ * GTFS shapes or hand-drawn polylines.
+ *
+ *   node scripts/fleet-simulator.mjs --buses 20 --gtfs ./feed
+ *   node scripts/fleet-simulator.mjs --routes ./routes.json --dropout 0.01
+ *
+ * Options (all optional):
+ *   --port <n>          Port to listen on (default 8080)
+ *   --buses <n>         Number of buses (default 10)
+ *   --gtfs <dir>        Unzipped GTFS feed; uses shapes.txt and trips.txt
+ *   --routes <file>     JSON array of { routeId, points: [[lat, lon], ...], stops?: [[lat, lon], ...] }
+ *   --speed <km/h>      Mean cruising speed (default 30)
+ *   --dwell <s>         Mean dwell time at stops (default 20)
+ *   --stop-spacing <m>  Stop spacing when a route has no stops (default 400)
+ *   --interval <ms>     Update interval (default 1000)
+ *   --delay <p>         Chance per stop of an extra 30-180 s hold (default 0.05)
+ *   --detour <p>        Chance per update of starting an off-route detour (default 0.002)
+ *   --dropout <p>       Chance per update of going silent for 30-300 s (default 0.002)
+ *   --seed <n>          Random seed for repeatable runs
+ *
+ * Client messages honoured: subscribe, unsubscribe, join, leave, room_message,
+ * resume, snapshot_request and the "ping" heartbeat. Broadcast messages carry a
+ * `seq` so reconnecting clients can resume; clients that subscribe to only
+ * some events will see gaps and fall back to snapshots.
+ */
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+import { readFileSync, existsSync } from 'node:fs';
+import { join } from 'node:path';
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const EARTH_RADIUS = 6371000;
+const REPLAY_BUFFER_SIZE = 5000;
+
+const DEFAULT_ROUTE = {
+  routeId: 'demo-1',
+  points: [
+    [40.7580, -73.9855],
+    [40.7614, -73.9776],
+    [40.7648, -73.9733],
+    [40.7681, -73.9819],
+    [40.7711, -73.9870],
+    [40.7663, -73.9934],
+    [40.7618, -73.9965],
+    [40.7580, -73.9855],
+  ],
+};
+
+// Parse --key value and --key=value arguments
+function parseArgs(argv) {
+  const args = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+    const [key, inline] = arg.slice(2).split('=');
+    if (inline !== undefined) {
+      args[key] = inline;
+    } else if (argv[i + 1] && !argv[i + 1].startsWith('--')) {
+      args[key] = argv[++i];
+    } else {
+      args[key] = 'true';
+    }
+  }
+  return args;
+}
+
+const args = parseArgs(process.argv.slice(2));
+const config = {
+  port: Number(args.port ?? 8080),
+  buses: Number(args.buses ?? 10),
+  gtfs: args.gtfs,
+  routes: args.routes,
+  speed: Number(args.speed ?? 30) / 3.6,
+  dwell: Number(args.dwell ?? 20),
+  stopSpacing: Number(args['stop-spacing'] ?? 400),
+  interval: Number(args.interval ?? 1000),
+  delay: Number(args.delay ?? 0.05),
+  detour: Number(args.detour ?? 0.002),
+  dropout: Number(args.dropout ?? 0.002),
+  seed: args.seed !== undefined ? Number(args.seed) : Date.now(),
+};
+
+// Small seeded generator so a given --seed replays the same run
+function createRandom(seed) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const random = createRandom(config.seed);
+const between = (min, max) => min + random() * (max - min);
+
+// Geometry
+
+const toRad = (degrees) => (degrees * Math.PI) / 180;
+
+function distance([lat1, lon1], [lat2, lon2]) {
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+function bearing([lat1, lon1], [lat2, lon2]) {
+  const y = Math.sin(toRad(lon2 - lon1)) * Math.cos(toRad(lat2));
+  const x = Math.cos(toRad(lat1)) * Math.sin(toRad(lat2)) -
+    Math.sin(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.cos(toRad(lon2 - lon1));
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
+
+// Move a point a number of metres to the right of a heading
+function offset([lat, lon], heading, metres) {
+  const right = toRad(heading + 90);
+  return [
+    lat + ((Math.cos(right) * metres) / EARTH_RADIUS) * (180 / Math.PI),
+    lon + ((Math.sin(right) * metres) / (EARTH_RADIUS * Math.cos(toRad(lat)))) * (180 / Math.PI),
+  ];
+}
+
+function buildRoute({ routeId, shapeId, points, stops }) {
+  const cumulative = [0];
+  for (let i = 1; i < points.length; i++) {
+    cumulative.push(cumulative[i - 1] + distance(points[i - 1], points[i]));
+  }
+  const length = cumulative[cumulative.length - 1];
+
+  const route = { routeId, shapeId: shapeId ?? routeId, points, cumulative, length };
+  route.stops = stops?.length
+    ? stops.map(stop => nearestDistance(route, stop)).sort((a, b) => a - b)
+    : Array.from(
+      { length: Math.floor(length / config.stopSpacing) },
+      (_, i) => (i + 1) * config.stopSpacing
+    );
+  return route;
+}
+
+function nearestDistance(route, point) {
+  let best = 0;
+  let bestDistance = Infinity;
+  route.points.forEach((vertex, i) => {
+    const d = distance(vertex, point);
+    if (d < bestDistance) {
+      bestDistance = d;
+      best = route.cumulative[i];
+    }
+  });
+  return best;
+}
+
+function pointAt(route, along) {
+  const clamped = Math.min(Math.max(along, 0), route.length);
+  let i = 1;
+  while (i < route.cumulative.length - 1 && route.cumulative[i] < clamped) i++;
+  const start = route.points[i - 1];
+  const end = route.points[i];
+  const span = route.cumulative[i] - route.cumulative[i - 1];
+  const t = span === 0 ? 0 : (clamped - route.cumulative[i - 1]) / span;
+  return {
+    point: [start[0] + t * (end[0] - start[0]), start[1] + t * (end[1] - start[1])],
+    heading: bearing(start, end),
+  };
+}
+
+// Route sources
+
+// Split one CSV line, honouring quoted fields such as trip headsigns with commas
+function splitCsvLine(line) {
+  const values = [];
+  let value = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      values.push(value.trim());
+      value = '';
+    } else {
+      value += char;
+    }
+  }
+
+  values.push(value.trim());
+  return values;
+}
+
+function parseCsv(text) {
+  const [header, ...lines] = text.replace(/^\uFEFF/, '').split(/\r?\n/).filter(Boolean);
+  const columns = splitCsvLine(header);
+  return lines.map((line) => {
+    const values = splitCsvLine(line);
+    return Object.fromEntries(columns.map((column, i) => [column, values[i] ?? '']));
+  });
+}
+
+function loadGtfsRoutes(dir) {
+  const shapesFile = join(dir, 'shapes.txt');
+  if (!existsSync(shapesFile)) {
+    throw new Error(`No shapes.txt in ${dir}`);
+  }
+
+  const shapes = new Map();
+  parseCsv(readFileSync(shapesFile, 'utf8')).forEach((row) => {
+    if (!shapes.has(row.shape_id)) shapes.set(row.shape_id, []);
+    shapes.get(row.shape_id).push({
+      sequence: Number(row.shape_pt_sequence),
+      point: [Number(row.shape_pt_lat), Number(row.shape_pt_lon)],
+    });
+  });
+
+  const routeByShape = new Map();
+  const tripsFile = join(dir, 'trips.txt');
+  if (existsSync(tripsFile)) {
+    parseCsv(readFileSync(tripsFile, 'utf8')).forEach((row) => {
+      if (row.shape_id && !routeByShape.has(row.shape_id)) {
+        routeByShape.set(row.shape_id, row.route_id);
+      }
+    });
+  }
+
+  return Array.from(shapes.entries()).map(([shapeId, points]) => buildRoute({
+    routeId: routeByShape.get(shapeId) ?? shapeId,
+    shapeId,
+    points: points.sort((a, b) => a.sequence - b.sequence).map(p => p.point),
+  }));
+}
+
+function loadRoutes() {
+  if (config.gtfs) return loadGtfsRoutes(config.gtfs);
+  if (config.routes) {
+    return JSON.parse(readFileSync(config.routes, 'utf8')).map(buildRoute);
+  }
+  return [buildRoute(DEFAULT_ROUTE)];
+}
+
+// Buses
+
+const OCCUPANCY_BANDS = [
+  [5, 'EMPTY'],
+  [40, 'MANY_SEATS_AVAILABLE'],
+  [70, 'FEW_SEATS_AVAILABLE'],
+  [90, 'STANDING_ROOM_ONLY'],
+  [100, 'CRUSHED_STANDING_ROOM_ONLY'],
+  [Infinity, 'FULL'],
+];
+
+const occupancyStatus = percentage =>
+  OCCUPANCY_BANDS.find(([limit]) => percentage <= limit)[1];
+
+function createBus(index, route) {
+  return {
+    vehicleId: `bus-${String(index + 1).padStart(3, '0')}`,
+    label: String(100 + index + 1),
+    route,
+    trip: 0,
+    along: random() * route.length,
+    speed: config.speed * between(0.8, 1.2),
+    nextStop: 0,
+    holdUntil: 0,
+    silentUntil: 0,
+    detour: null,
+    occupancy: Math.round(between(5, 60)),
+    status: 'in-service',
+  };
+}
+
+function tripId(bus) {
+  return `${bus.route.shapeId}-${bus.vehicleId}-${bus.trip}`;
+}
+
+// Advance one bus by dt seconds; returns false while it is silent
+function step(bus, dt, now) {
+  const { route } = bus;
+
+  if (bus.holdUntil > now) {
+    bus.status = bus.along >= route.length ? 'layover' : 'in-service';
+  } else if (bus.along >= route.length) {
+    // Start the next trip after the layover
+    bus.along = 0;
+    bus.trip += 1;
+    bus.nextStop = 0;
+    bus.status = 'in-service';
+  } else {
+    const cruising = config.speed * between(0.6, 1.3);
+    bus.speed += (cruising - bus.speed) * 0.2;
+    bus.along = Math.min(bus.along + bus.speed * dt, route.length);
+
+    // Pull up at the next stop and dwell while passengers board
+    if (bus.nextStop < route.stops.length && route.stops[bus.nextStop] < bus.along) {
+      bus.along = route.stops[bus.nextStop];
+      bus.nextStop += 1;
+      const boarding = Math.round(between(-12, 14));
+      bus.occupancy = Math.min(110, Math.max(0, bus.occupancy + boarding));
+      const extra = random() < config.delay ? between(30, 180) : 0;
+      bus.holdUntil = now + (config.dwell * between(0.5, 1.5) + extra) * 1000;
+    }
+
+    if (bus.along >= route.length) {
+      bus.holdUntil = now + between(60, 240) * 1000;
+      bus.status = 'layover';
+    }
+  }
+
+  // Detours push the bus sideways off the shape for a stretch
+  if (!bus.detour && random() < config.detour) {
+    bus.detour = { until: bus.along + between(300, 1200), offset: between(80, 250) * (random() < 0.5 ? -1 : 1) };
+  }
+  if (bus.detour && bus.along > bus.detour.until) {
+    bus.detour = null;
+  }
+
+  // Dropouts simulate a modem going quiet
+  if (bus.silentUntil <= now && random() < config.dropout) {
+    bus.silentUntil = now + between(30, 300) * 1000;
+  }
+  return bus.silentUntil <= now;
+}
+
+function toUpdate(bus, now) {
+  const moving = bus.holdUntil <= now && bus.status === 'in-service';
+  const { point, heading } = pointAt(bus.route, bus.along);
+  const [latitude, longitude] = bus.detour ? offset(point, heading, bus.detour.offset) : point;
+  const jitter = () => between(-0.00004, 0.00004);
+
+  return {
+    vehicleId: bus.vehicleId,
+    label: bus.label,
+    routeId: bus.route.routeId,
+    tripId: tripId(bus),
+    position: {
+      latitude: latitude + jitter(),
+      longitude: longitude + jitter(),
+      bearing: heading,
+      speed: moving ? bus.speed : 0,
+    },
+    occupancyStatus: occupancyStatus(bus.occupancy),
+    occupancyPercentage: bus.occupancy,
+    status: bus.status,
+    updatedAt: now,
+  };
+}
+
+// WebSocket framing (RFC 6455), enough for small text messages
+
+function encodeFrame(payload, opcode = 0x1) {
+  const data = Buffer.from(payload);
+  let header;
+  if (data.length < 126) {
+    header = Buffer.from([0x80 | opcode, data.length]);
+  } else if (data.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(data.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(data.length), 2);
+  }
+  return Buffer.concat([header, data]);
+}
+
+// Pull complete frames off the front of a buffer
+function decodeFrames(buffer) {
+  const frames = [];
+  let offset = 0;
+
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let cursor = offset + 2;
+
+    if (length === 126) {
+      if (buffer.length < cursor + 2) break;
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length < cursor + 8) break;
+      length = Number(buffer.readBigUInt64BE(cursor));
+      cursor += 8;
+    }
+
+    const maskLength = masked ? 4 : 0;
+    if (buffer.length < cursor + maskLength + length) break;
+
+    const mask = masked ? buffer.subarray(cursor, cursor + 4) : null;
+    cursor += maskLength;
+    const payload = Buffer.from(buffer.subarray(cursor, cursor + length));
+    if (mask) {
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    }
+
+    frames.push({ opcode, payload });
+    offset = cursor + length;
+  }
+
+  return { frames, rest: buffer.subarray(offset) };
+}
+
+// Server
+
+const routes = loadRoutes();
+const buses = Array.from({ length: config.buses }, (_, i) => createBus(i, routes[i % routes.length]));
+const clients = new Set();
+const replayBuffer = [];
+let sequence = 0;
+
+function sendRaw(client, message) {
+  if (client.socket.destroyed) return;
+  client.socket.write(encodeFrame(typeof message === 'string' ? message : JSON.stringify(message)));
+}
+
+// Clients that joined rooms only hear about those routes. Filtered batches keep
+// their sequence number, even when empty, so room filtering never looks like a gap.
+const forRooms = (client, vehicles) =>
+  client.rooms.size === 0 ? vehicles : vehicles.filter(vehicle => client.rooms.has(vehicle.routeId));
+
+function broadcast(event, vehicles) {
+  const envelope = { event, data: vehicles, seq: ++sequence };
+  replayBuffer.push(envelope);
+  if (replayBuffer.length > REPLAY_BUFFER_SIZE) replayBuffer.shift();
+
+  clients.forEach((client) => {
+    if (client.subscriptions.size > 0 && !client.subscriptions.has(event)) return;
+    sendRaw(client, { ...envelope, data: forRooms(client, vehicles) });
+  });
+}
+
+function sendSnapshot(client) {
+  const now = Date.now();
+  const vehicles = buses
+    .filter(bus => bus.silentUntil <= now)
+    .map(bus => toUpdate(bus, now));
+  sendRaw(client, { event: 'fleet_snapshot', data: forRooms(client, vehicles) });
+  sendRaw(client, { type: 'snapshot_complete', seq: sequence });
+}
+
+function handleMessage(client, text) {
+  if (text === 'ping') {
+    sendRaw(client, 'pong');
+    return;
+  }
+
+  let message;
+  try {
+    message = JSON.parse(text);
+  } catch {
+    return;
+  }
+
+  switch (message.type) {
+    case 'subscribe':
+      client.subscriptions.add(message.event);
+      break;
+    case 'unsubscribe':
+      client.subscriptions.delete(message.event);
+      break;
+    case 'join':
+      client.rooms.add(String(message.roomId));
+      break;
+    case 'leave':
+      client.rooms.delete(String(message.roomId));
+      break;
+    case 'room_message':
+      clients.forEach((other) => {
+        if (other !== client && other.rooms.has(String(message.roomId))) {
+          sendRaw(other, { event: 'room_message', data: { roomId: message.roomId, message: message.message } });
+        }
+      });
+      break;
+    case 'snapshot_request':
+      sendSnapshot(client);
+      break;
+    case 'resume': {
+      // Replay only when the buffer still covers everything after lastSequence
+      const oldest = replayBuffer[0]?.seq ?? sequence + 1;
+      if (typeof message.lastSequence !== 'number' || message.lastSequence + 1 < oldest) {
+        sendRaw(client, { type: 'resume_failed' });
+        break;
+      }
+      replayBuffer
+        .filter(envelope => envelope.seq > message.lastSequence)
+        .forEach(envelope => sendRaw(client, { ...envelope, data: forRooms(client, envelope.data) }));
+      sendRaw(client, { type: 'resume_complete', seq: sequence });
+      break;
+    }
+    default:
+      break;
+  }
+}
+
+const server = createServer((req, res) => {
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({
+    buses: buses.length,
+    routes: routes.map(route => route.routeId),
+    clients: clients.size,
+    sequence,
+  }));
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (!key || req.headers.upgrade?.toLowerCase() !== 'websocket') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '\r\n',
+  ].join('\r\n'));
+
+  const client = { socket, subscriptions: new Set(), rooms: new Set() };
+  let pending = Buffer.alloc(0);
+  clients.add(client);
+
+  socket.on('data', (chunk) => {
+    const { frames, rest } = decodeFrames(Buffer.concat([pending, chunk]));
+    pending = rest;
+
+    frames.forEach(({ opcode, payload }) => {
+      if (opcode === 0x1) {
+        handleMessage(client, payload.toString('utf8'));
+      } else if (opcode === 0x8) {
+        socket.end(encodeFrame(payload.subarray(0, 2), 0x8));
+      } else if (opcode === 0x9) {
+        socket.write(encodeFrame(payload, 0xa));
+      }
+    });
+  });
+
+  const drop = () => clients.delete(client);
+  socket.on('close', drop);
+  socket.on('error', drop);
+});
+
+let lastTick = Date.now();
+const timer = setInterval(() => {
+  const now = Date.now();
+  const dt = (now - lastTick) / 1000;
+  lastTick = now;
+
+  const updates = buses
+    .filter(bus => step(bus, dt, now))
+    .map(bus => toUpdate(bus, now));
+  if (updates.length > 0) {
+    broadcast('vehicle_update', updates);
+  }
+}, config.interval);
+
+server.listen(config.port, () => {
+  console.log(
+    `Fleet simulator: ${buses.length} buses on ${routes.length} route(s), ` +
+    `ws://localhost:${config.port} (seed ${config.seed})`
+  );
+});
+
+const shutdown = () => {
+  clearInterval(timer);
+  clients.forEach(client => client.socket.destroy());
+  server.close(() => process.exit(0));
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
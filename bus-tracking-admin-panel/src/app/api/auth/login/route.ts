@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { JwtClaims, JwtKeyResolver, createKeyResolver, isJwtError, verifyJwt } from '@/lib/jwt';
+import { createSession, isSessionError, setSessionCookies } from '@/lib/session';
+
+// Sessions are issued into the in-memory refresh token store
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Sign-in happens at the identity provider; the login page posts the ID token it
+// returns here. Provider tokens are verified with their own settings, never the
+// panel's access token keys, so an access token cannot be exchanged for a session:
+//   AUTH_LOGIN_JWKS_URL   the provider's JWKS document
+//   AUTH_LOGIN_ISSUER     the provider's issuer
+//   AUTH_LOGIN_AUDIENCE   the panel's client ID at the provider
+let loginKeys: JwtKeyResolver | null = null;
+
+function getLoginConfig() {
+  const jwksUrl = process.env.AUTH_LOGIN_JWKS_URL;
+  const issuer = process.env.AUTH_LOGIN_ISSUER;
+  if (!jwksUrl || !issuer) return null;
+
+  loginKeys ??= createKeyResolver({ jwksUrl });
+  return {
+    getKeys: loginKeys,
+    issuer,
+    audience: process.env.AUTH_LOGIN_AUDIENCE || undefined,
+    requireExp: true,
+  };
+}
+
+// Claims carried from the provider's token into every access token of the session
+const SESSION_CLAIMS = ['sub', 'name', 'email', 'role', 'roles', 'tenant', 'tenants', 'tenantRoles', 'depotId'];
+
+const sessionClaimsFrom = (claims: JwtClaims): JwtClaims =>
+  Object.fromEntries(SESSION_CLAIMS.filter(claim => claim in claims).map(claim => [claim, claims[claim]]));
+
+// Exchange a provider ID token for the access and refresh cookies
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}));
+  if (typeof body.idToken !== 'string') {
+    return NextResponse.json({ error: 'idToken is required' }, { status: 400 });
+  }
+
+  const config = getLoginConfig();
+  if (!config) {
+    console.error('Login failed: AUTH_LOGIN_JWKS_URL and AUTH_LOGIN_ISSUER are required');
+    return NextResponse.json({ error: 'Login is not configured', reason: 'config' }, { status: 500 });
+  }
+
+  let claims: JwtClaims;
+  try {
+    claims = await verifyJwt(body.idToken, config);
+  } catch (error) {
+    const reason = isJwtError(error) ? error.type : 'config';
+    if (reason === 'config') {
+      console.error('Login failed:', error);
+    }
+    return NextResponse.json(
+      { error: 'Sign-in was not accepted', reason },
+      { status: reason === 'config' ? 500 : 401 }
+    );
+  }
+
+  if (!claims.sub) {
+    return NextResponse.json({ error: 'Sign-in was not accepted', reason: 'malformed' }, { status: 401 });
+  }
+
+  try {
+    const tokens = await createSession(sessionClaimsFrom(claims));
+    const response = NextResponse.json({ expiresAt: tokens.accessExpiresAt });
+    setSessionCookies(response, tokens);
+    return response;
+  } catch (error) {
+    console.error('Login failed:', error);
+    const reason = isSessionError(error) ? error.type : 'config';
+    return NextResponse.json({ error: 'Session could not be started', reason }, { status: 500 });
+  }
+}
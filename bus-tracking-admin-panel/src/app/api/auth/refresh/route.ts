@@ -0,0 +1,83 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import {
+  REFRESH_COOKIE,
+  clearSessionCookies,
+  isSessionError,
+  rotateSession,
+  setSessionCookies,
+} from '@/lib/session';
+
+// Refresh tokens live in server memory unless a shared store is configured
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+async function renew(request: NextRequest) {
+  try {
+    const tokens = await rotateSession(request.cookies.get(REFRESH_COOKIE)?.value);
+    return { tokens, reason: null };
+  } catch (error) {
+    if (!isSessionError(error) || error.type === 'config') {
+      console.error('Session refresh failed:', error);
+    }
+    return { tokens: null, reason: isSessionError(error) ? error.type : 'config' };
+  }
+}
+
+// A token that was only superseded leaves the winner's cookies in place
+const clearsSession = (reason: string) => reason !== 'config' && reason !== 'superseded';
+
+const statusFor = (reason: string) =>
+  reason === 'config' ? 500 : reason === 'superseded' ? 409 : 401;
+
+// Only same-origin paths, and never back into this route
+const safeCallbackUrl = (value: string | null) =>
+  value && value.startsWith('/') && !value.startsWith('//') && !value.startsWith('/api/auth/')
+    ? value
+    : '/dashboard';
+
+// Silent renewal from the session hook; responds with the new access token expiry
+export async function POST(request: NextRequest) {
+  const { tokens, reason } = await renew(request);
+
+  if (!tokens) {
+    const response = NextResponse.json(
+      { error: 'Session could not be renewed', reason },
+      { status: statusFor(reason) }
+    );
+    if (clearsSession(reason)) {
+      clearSessionCookies(response);
+    }
+    return response;
+  }
+
+  const response = NextResponse.json({ expiresAt: tokens.accessExpiresAt });
+  setSessionCookies(response, tokens);
+  return response;
+}
+
+// Page loads with an expired access token are sent here by the middleware
+export async function GET(request: NextRequest) {
+  const callbackUrl = safeCallbackUrl(request.nextUrl.searchParams.get('callbackUrl'));
+  const { tokens, reason } = await renew(request);
+
+  // A parallel request renewed the session; its cookies carry the user on
+  if (reason === 'superseded') {
+    return NextResponse.redirect(new URL(callbackUrl, request.url));
+  }
+
+  if (!tokens) {
+    const loginUrl = new URL('/login', request.url);
+    loginUrl.searchParams.set('callbackUrl', callbackUrl);
+    loginUrl.searchParams.set('reason', reason === 'config' ? 'config' : 'expired');
+    const response = NextResponse.redirect(loginUrl);
+    if (clearsSession(reason)) {
+      clearSessionCookies(response);
+    }
+    return response;
+  }
+
+  const response = NextResponse.redirect(new URL(callbackUrl, request.url));
+  setSessionCookies(response, tokens);
+  return response;
+}
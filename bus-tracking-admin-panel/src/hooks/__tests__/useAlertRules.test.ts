@@ -0,0 +1,101 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AlertRule, createAlertEngine } from '../useAlertRules';
+import { FleetVehicle } from '../useFleetStore';
+
+// The engine is plain logic; the hook's toasts are not under test
+vi.mock('../useNotification', () => ({ useNotification: vi.fn() }));
+
+const MINUTE = 60 * 1000;
+const start = Date.UTC(2026, 0, 1, 8);
+
+const rule = (overrides: Partial<AlertRule>): AlertRule => ({
+  id: 'speeding',
+  name: 'Speeding',
+  enabled: true,
+  condition: { type: 'speed', maxSpeed: 20 },
+  severity: 'warning',
+  cooldown: 0,
+  ...overrides,
+});
+
+const vehicle = (overrides: Partial<FleetVehicle> = {}): FleetVehicle => ({
+  vehicleId: 'bus-1',
+  routeId: 'route-7',
+  position: { latitude: 45.5, longitude: -73.5, speed: 10 },
+  status: 'in-service',
+  updatedAt: start,
+  positionUpdatedAt: start,
+  isStale: false,
+  ...overrides,
+});
+
+const speeding = (speed: number) => vehicle({ position: { latitude: 45.5, longitude: -73.5, speed } });
+
+describe('createAlertEngine', () => {
+  it('raises once per episode of a condition holding', () => {
+    const engine = createAlertEngine();
+    const rules = [rule({})];
+
+    expect(engine.evaluate(rules, [speeding(25)], [], start)).toHaveLength(1);
+    expect(engine.evaluate(rules, [speeding(26)], [], start + 1000)).toHaveLength(0);
+    expect(engine.evaluate(rules, [speeding(10)], [], start + 2000)).toHaveLength(0);
+    expect(engine.evaluate(rules, [speeding(25)], [], start + 3000)).toHaveLength(1);
+  });
+
+  it('holds back a new episode until the cooldown has passed', () => {
+    const engine = createAlertEngine();
+    const rules = [rule({ cooldown: 5 * MINUTE })];
+
+    expect(engine.evaluate(rules, [speeding(25)], [], start)).toHaveLength(1);
+    engine.evaluate(rules, [speeding(10)], [], start + MINUTE);
+    expect(engine.evaluate(rules, [speeding(25)], [], start + 2 * MINUTE)).toHaveLength(0);
+    expect(engine.evaluate(rules, [speeding(25)], [], start + 5 * MINUTE)).toHaveLength(1);
+  });
+
+  it('shares the cooldown between vehicles with the same deduplication key', () => {
+    const engine = createAlertEngine();
+    const rules = [rule({ cooldown: 5 * MINUTE, dedupKey: '{ruleId}:{routeId}' })];
+    const other = { ...speeding(25), vehicleId: 'bus-2' };
+
+    const alerts = engine.evaluate(rules, [speeding(25), other], [], start);
+    expect(alerts.map(alert => alert.dedupKey)).toEqual(['speeding:route-7']);
+  });
+
+  it('waits for a vehicle to stay off route for the configured duration', () => {
+    const engine = createAlertEngine();
+    const rules = [rule({ id: 'off-route', condition: { type: 'off-route', duration: 3 * MINUTE } })];
+    const offRoute = vehicle({ isOffRoute: true });
+
+    expect(engine.evaluate(rules, [offRoute], [], start)).toHaveLength(0);
+    expect(engine.evaluate(rules, [offRoute], [], start + 2 * MINUTE)).toHaveLength(0);
+
+    const [alert] = engine.evaluate(rules, [offRoute], [], start + 3 * MINUTE);
+    expect(alert).toMatchObject({ ruleId: 'off-route', vehicleId: 'bus-1', value: 3 * MINUTE });
+  });
+
+  it('measures missing positions from the last fix, even for stale vehicles', () => {
+    const engine = createAlertEngine();
+    const rules = [
+      rule({ id: 'silent', condition: { type: 'no-position', duration: 5 * MINUTE } }),
+      rule({}),
+    ];
+    // Status updates keep arriving while GPS has been dead for ten minutes
+    const silent = {
+      ...speeding(25),
+      updatedAt: start + 10 * MINUTE,
+      positionUpdatedAt: start,
+      isStale: true,
+    };
+
+    const alerts = engine.evaluate(rules, [silent], [], start + 10 * MINUTE);
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]).toMatchObject({ ruleId: 'silent', value: 10 * MINUTE });
+  });
+
+  it('skips disabled rules and vehicles on other routes', () => {
+    const engine = createAlertEngine();
+
+    expect(engine.evaluate([rule({ enabled: false })], [speeding(25)], [], start)).toHaveLength(0);
+    expect(engine.evaluate([rule({ routeIds: ['route-9'] })], [speeding(25)], [], start)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { decodeFeedMessage, occupancyStatusForLoad } from '../useGtfsRealtime';
+
+// Minimal protobuf writer for building feed fixtures
+type Field = [number, 'varint', number] | [number, 'string', string] | [number, 'float', number] | [number, 'message', Field[]];
+
+function varint(value: number): number[] {
+  let remaining = BigInt.asUintN(64, BigInt(value));
+  const bytes: number[] = [];
+  do {
+    const byte = Number(remaining & 0x7fn);
+    remaining >>= 7n;
+    bytes.push(remaining ? byte | 0x80 : byte);
+  } while (remaining);
+  return bytes;
+}
+
+function encode(fields: Field[]): Uint8Array {
+  const bytes: number[] = [];
+  for (const [field, kind, value] of fields) {
+    if (kind === 'varint') {
+      bytes.push(...varint(field * 8), ...varint(value));
+    } else if (kind === 'float') {
+      const float = new Uint8Array(4);
+      new DataView(float.buffer).setFloat32(0, value, true);
+      bytes.push(...varint(field * 8 + 5), ...float);
+    } else {
+      const payload = kind === 'string' ? new TextEncoder().encode(value) : encode(value);
+      bytes.push(...varint(field * 8 + 2), ...varint(payload.length), ...payload);
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+const header: Field = [1, 'message', [[1, 'string', '2.0'], [2, 'varint', 1], [3, 'varint', 1767225600]]];
+
+describe('decodeFeedMessage', () => {
+  it('decodes the feed header', () => {
+    expect(decodeFeedMessage(encode([header])).header).toEqual({
+      gtfsRealtimeVersion: '2.0',
+      incrementality: 'DIFFERENTIAL',
+      timestamp: 1767225600000,
+    });
+  });
+
+  it('decodes vehicle positions', () => {
+    const feed = encode([header, [2, 'message', [
+      [1, 'string', 'bus-12'],
+      [4, 'message', [
+        [1, 'message', [[1, 'string', 'trip-1'], [3, 'string', '20260101'], [5, 'string', 'route-7'], [6, 'varint', 1]]],
+        [2, 'message', [[1, 'float', 45.5], [2, 'float', -73.5], [3, 'float', 90], [5, 'float', 8.25]]],
+        [3, 'varint', 14],
+        [4, 'varint', 1],
+        [5, 'varint', 1767225590],
+        [7, 'string', 'stop-3'],
+        [8, 'message', [[1, 'string', '1203'], [2, 'string', 'Bus 1203']]],
+        [9, 'varint', 3],
+        [10, 'varint', 85],
+      ]],
+    ]]]);
+
+    expect(decodeFeedMessage(feed).vehiclePositions).toEqual([{
+      entityId: 'bus-12',
+      trip: { tripId: 'trip-1', startDate: '20260101', routeId: 'route-7', directionId: 1 },
+      position: { latitude: 45.5, longitude: -73.5, bearing: 90, speed: 8.25 },
+      currentStopSequence: 14,
+      currentStatus: 'STOPPED_AT',
+      timestamp: 1767225590000,
+      stopId: 'stop-3',
+      vehicle: { id: '1203', label: 'Bus 1203' },
+      occupancyStatus: 'STANDING_ROOM_ONLY',
+      occupancyPercentage: 85,
+    }]);
+  });
+
+  it('decodes trip updates with negative delays', () => {
+    const feed = encode([header, [2, 'message', [
+      [1, 'string', 'update-1'],
+      [3, 'message', [
+        [1, 'message', [[1, 'string', 'trip-1'], [4, 'varint', 3]]],
+        [2, 'message', [[1, 'varint', 5], [2, 'message', [[1, 'varint', -90], [2, 'varint', 1767225700]]], [4, 'string', 'stop-5']]],
+        [2, 'message', [[1, 'varint', 6], [5, 'varint', 1]]],
+        [5, 'varint', -90],
+      ]],
+    ]]]);
+
+    expect(decodeFeedMessage(feed).tripUpdates).toEqual([{
+      entityId: 'update-1',
+      trip: { tripId: 'trip-1', scheduleRelationship: 'CANCELED' },
+      stopTimeUpdates: [
+        { stopSequence: 5, arrival: { delay: -90, time: 1767225700000 }, stopId: 'stop-5' },
+        { stopSequence: 6, scheduleRelationship: 'SKIPPED' },
+      ],
+      delay: -90,
+    }]);
+  });
+
+  it('reports deleted entities and skips unknown fields', () => {
+    const feed = encode([header, [2, 'message', [[1, 'string', 'bus-9'], [2, 'varint', 1], [99, 'string', 'extension']]]]);
+    const message = decodeFeedMessage(feed);
+    expect(message.deletedEntityIds).toEqual(['bus-9']);
+    expect(message.vehiclePositions).toEqual([]);
+  });
+
+  it('throws on truncated frames', () => {
+    const feed = encode([header]);
+    expect(() => decodeFeedMessage(feed.subarray(0, feed.length - 2))).toThrow(/Truncated/);
+  });
+});
+
+describe('occupancyStatusForLoad', () => {
+  const capacity = { seated: 40, total: 70 };
+
+  it('fills seats before standing room', () => {
+    expect(occupancyStatusForLoad(0, capacity)).toBe('EMPTY');
+    expect(occupancyStatusForLoad(10, capacity)).toBe('MANY_SEATS_AVAILABLE');
+    expect(occupancyStatusForLoad(30, capacity)).toBe('FEW_SEATS_AVAILABLE');
+    expect(occupancyStatusForLoad(50, capacity)).toBe('STANDING_ROOM_ONLY');
+    expect(occupancyStatusForLoad(65, capacity)).toBe('CRUSHED_STANDING_ROOM_ONLY');
+    expect(occupancyStatusForLoad(70, capacity)).toBe('FULL');
+  });
+});
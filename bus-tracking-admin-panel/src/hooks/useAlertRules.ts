@@ -0,0 +1,415 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { usePersist } from './usePersist';
+import { ValidationSchema, validationRules, validateValues } from './useValidation';
+import { useNotification } from './useNotification';
+import { FleetStore, FleetVehicle, fleetStore, lastPositionAt } from './useFleetStore';
+import { GeofenceZone, distanceToZone } from './useGeofence';
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+export type AlertCondition =
+  // Speed in metres per second, optionally only inside a geofence zone
+  | { type: 'speed'; maxSpeed: number; zoneId?: string }
+  // Milliseconds a vehicle must stay off route before alerting
+  | { type: 'off-route'; duration: number }
+  // Milliseconds without a position update
+  | { type: 'no-position'; duration: number }
+  // Speed in metres per second above which an open door counts as moving
+  | { type: 'door-open-moving'; minSpeed?: number }
+  // Seconds behind schedule
+  | { type: 'delay'; maxDelay: number };
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  condition: AlertCondition;
+  severity: AlertSeverity;
+  // Milliseconds before another alert with the same deduplication key
+  cooldown: number;
+  // Template built from {ruleId}, {vehicleId} and {routeId}; defaults to one per rule and vehicle
+  dedupKey?: string;
+  // Limit the rule to these routes
+  routeIds?: string[];
+}
+
+export type AlertRuleInput = Omit<AlertRule, 'id'> & { id?: string };
+
+export interface FleetAlert {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  severity: AlertSeverity;
+  vehicleId: string;
+  routeId?: string;
+  dedupKey: string;
+  message: string;
+  // The measurement that tripped the rule, in the condition's units
+  value: number;
+  timestamp: number;
+  acknowledged: boolean;
+}
+
+const ALERT_SEVERITIES: AlertSeverity[] = ['info', 'warning', 'critical'];
+const DEFAULT_DEDUP_KEY = '{ruleId}:{vehicleId}';
+const DEDUP_PLACEHOLDERS = ['{ruleId}', '{vehicleId}', '{routeId}'];
+const NO_RULES: AlertRule[] = [];
+
+const isPositive = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+function isValidCondition(condition: AlertCondition | undefined): boolean {
+  if (!condition) return false;
+  switch (condition.type) {
+    case 'speed':
+      return isPositive(condition.maxSpeed);
+    case 'off-route':
+    case 'no-position':
+      return isPositive(condition.duration);
+    case 'door-open-moving':
+      return condition.minSpeed === undefined || condition.minSpeed >= 0;
+    case 'delay':
+      return isPositive(condition.maxDelay);
+    default:
+      return false;
+  }
+}
+
+export const alertRuleSchema: ValidationSchema<AlertRule> = {
+  id: [validationRules.required('Rule ID is required')],
+  name: [
+    validationRules.required('Rule name is required'),
+    validationRules.maxLength(100),
+  ],
+  condition: [{
+    validate: isValidCondition,
+    message: 'Condition thresholds must be positive numbers',
+  }],
+  severity: [{
+    validate: value => ALERT_SEVERITIES.includes(value),
+    message: 'Unknown severity',
+  }],
+  cooldown: [{
+    validate: value => typeof value === 'number' && Number.isFinite(value) && value >= 0,
+    message: 'Cooldown must be zero or more milliseconds',
+  }],
+  dedupKey: [{
+    validate: value => value === undefined ||
+      (value.trim().length > 0 &&
+        (value.match(/\{[^}]*\}/g) ?? []).every(token => DEDUP_PLACEHOLDERS.includes(token))),
+    message: 'Deduplication key may only use {ruleId}, {vehicleId} and {routeId}',
+  }],
+};
+
+export function validateAlertRule(rule: AlertRule) {
+  return validateValues(rule, alertRuleSchema);
+}
+
+const isValidRuleList = (rules: AlertRule[]) =>
+  Array.isArray(rules) && rules.every(rule => Object.keys(validateAlertRule(rule)).length === 0);
+
+const createId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+const vehicleName = (vehicle: FleetVehicle) => vehicle.label ?? vehicle.vehicleId;
+const kmh = (speed: number) => Math.round(speed * 3.6);
+const minutes = (ms: number) => Math.round(ms / 60000);
+
+// The measurement tripping the condition, or null while it holds
+function measureCondition(
+  condition: AlertCondition,
+  vehicle: FleetVehicle,
+  zones: Map<string, GeofenceZone>,
+  now: number
+): number | null {
+  const speed = vehicle.position?.speed;
+
+  switch (condition.type) {
+    case 'speed': {
+      if (speed === undefined || speed <= condition.maxSpeed) return null;
+      if (!condition.zoneId) return speed;
+      const zone = zones.get(condition.zoneId);
+      return zone && vehicle.position && distanceToZone(vehicle.position, zone.shape) <= 0
+        ? speed
+        : null;
+    }
+    case 'off-route':
+      return vehicle.isOffRoute ? 0 : null;
+    case 'no-position': {
+      const silence = now - lastPositionAt(vehicle);
+      return silence >= condition.duration ? silence : null;
+    }
+    case 'door-open-moving':
+      return vehicle.doorOpen && speed !== undefined && speed > (condition.minSpeed ?? 1)
+        ? speed
+        : null;
+    case 'delay':
+      return vehicle.delay !== undefined && vehicle.delay > condition.maxDelay ? vehicle.delay : null;
+    default:
+      return null;
+  }
+}
+
+export function describeAlert(
+  rule: AlertRule,
+  vehicle: FleetVehicle,
+  value: number,
+  zones: Map<string, GeofenceZone>
+): string {
+  const name = vehicleName(vehicle);
+  const { condition } = rule;
+
+  switch (condition.type) {
+    case 'speed': {
+      const zone = condition.zoneId ? zones.get(condition.zoneId) : undefined;
+      return `${name} at ${kmh(value)} km/h${zone ? ` in ${zone.name}` : ''}`;
+    }
+    case 'off-route':
+      return `${name} off route for ${minutes(value)} min`;
+    case 'no-position':
+      return `No position from ${name} for ${minutes(value)} min`;
+    case 'door-open-moving':
+      return `${name} moving at ${kmh(value)} km/h with a door open`;
+    case 'delay':
+      return `${name} running ${Math.round(value / 60)} min late`;
+    default:
+      return `${rule.name}: ${name}`;
+  }
+}
+
+export function alertDedupKey(rule: AlertRule, vehicle: FleetVehicle): string {
+  return (rule.dedupKey ?? DEFAULT_DEDUP_KEY)
+    .replace(/\{ruleId\}/g, rule.id)
+    .replace(/\{vehicleId\}/g, vehicle.vehicleId)
+    .replace(/\{routeId\}/g, vehicle.routeId ?? '');
+}
+
+// Evaluates rules against fleet state. Alerts are edge-triggered: a vehicle
+// raises once per episode of a condition holding, and the cooldown applies per
+// deduplication key. Plain data and functions only.
+export function createAlertEngine() {
+  // `${ruleId}:${vehicleId}` -> time the condition started holding
+  const since = new Map<string, number>();
+  // Episodes that have already raised an alert
+  const raised = new Set<string>();
+  // dedupKey -> time of the last alert
+  const lastAlertAt = new Map<string, number>();
+
+  const evaluate = (
+    rules: AlertRule[],
+    vehicles: FleetVehicle[],
+    zones: GeofenceZone[] = [],
+    now = Date.now()
+  ): FleetAlert[] => {
+    const zonesById = new Map(zones.map(zone => [zone.id, zone]));
+    const alerts: FleetAlert[] = [];
+    const holding = new Set<string>();
+
+    rules.forEach((rule) => {
+      if (!rule.enabled) return;
+
+      vehicles.forEach((vehicle) => {
+        if (rule.routeIds?.length && !rule.routeIds.includes(vehicle.routeId ?? '')) return;
+        // Stale vehicles only count towards missing-position rules
+        if (vehicle.isStale && rule.condition.type !== 'no-position') return;
+
+        const value = measureCondition(rule.condition, vehicle, zonesById, now);
+        if (value === null) return;
+
+        const key = `${rule.id}:${vehicle.vehicleId}`;
+        holding.add(key);
+        if (!since.has(key)) since.set(key, now);
+        if (raised.has(key)) return;
+
+        const heldFor = now - since.get(key)!;
+        if (rule.condition.type === 'off-route' && heldFor < rule.condition.duration) return;
+
+        const dedupKey = alertDedupKey(rule, vehicle);
+        const last = lastAlertAt.get(dedupKey);
+        if (last !== undefined && now - last < rule.cooldown) return;
+
+        raised.add(key);
+        lastAlertAt.set(dedupKey, now);
+        const measured = rule.condition.type === 'off-route' ? heldFor : value;
+        alerts.push({
+          id: createId(),
+          ruleId: rule.id,
+          ruleName: rule.name,
+          severity: rule.severity,
+          vehicleId: vehicle.vehicleId,
+          routeId: vehicle.routeId,
+          dedupKey,
+          message: describeAlert(rule, vehicle, measured, zonesById),
+          value: measured,
+          timestamp: now,
+          acknowledged: false,
+        });
+      });
+    });
+
+    // Conditions that cleared end their episode
+    Array.from(since.keys()).forEach((key) => {
+      if (holding.has(key)) return;
+      since.delete(key);
+      raised.delete(key);
+    });
+
+    return alerts;
+  };
+
+  const reset = () => {
+    since.clear();
+    raised.clear();
+    lastAlertAt.clear();
+  };
+
+  return { evaluate, reset };
+}
+
+interface UseAlertRulesOptions {
+  storageKey?: string;
+  onError?: (error: Error) => void;
+}
+
+export function useAlertRules({
+  storageKey = 'fleet-alert-rules',
+  onError,
+}: UseAlertRulesOptions = {}) {
+  const { data: rules, setData: setRules, error, isPersisted } = usePersist<AlertRule[]>(NO_RULES, {
+    key: storageKey,
+    validateData: isValidRuleList,
+    onError,
+  });
+
+  // Returns the saved rule, or the validation errors that kept it from saving
+  const saveRule = useCallback((input: AlertRuleInput) => {
+    const rule: AlertRule = { ...input, id: input.id ?? createId() };
+    const errors = validateAlertRule(rule);
+    if (Object.keys(errors).length > 0) {
+      return { rule: null, errors };
+    }
+
+    setRules(prev => prev.some(existing => existing.id === rule.id)
+      ? prev.map(existing => (existing.id === rule.id ? rule : existing))
+      : [...prev, rule]);
+    return { rule, errors };
+  }, [setRules]);
+
+  const removeRule = useCallback((ruleId: string) => {
+    setRules(prev => prev.filter(rule => rule.id !== ruleId));
+  }, [setRules]);
+
+  const setRuleEnabled = useCallback((ruleId: string, enabled: boolean) => {
+    setRules(prev => prev.map(rule => (rule.id === ruleId ? { ...rule, enabled } : rule)));
+  }, [setRules]);
+
+  return {
+    rules,
+    saveRule,
+    removeRule,
+    setRuleEnabled,
+    isPersisted,
+    error,
+  };
+}
+
+// Helper hook for raising alerts as the fleet store changes
+interface UseFleetAlertsOptions {
+  zones?: GeofenceZone[];
+  store?: FleetStore;
+  // Re-evaluation interval in milliseconds, for rules that fire without updates
+  evaluateInterval?: number;
+  maxAlerts?: number;
+  showNotification?: boolean;
+  onAlert?: (alert: FleetAlert) => void;
+}
+
+export function useFleetAlerts(
+  rules: AlertRule[],
+  {
+    zones = [],
+    store = fleetStore,
+    evaluateInterval = 15000,
+    maxAlerts = 200,
+    showNotification = true,
+    onAlert,
+  }: UseFleetAlertsOptions = {}
+) {
+  const { error: notifyError, warning: notifyWarning, info: notifyInfo } = useNotification();
+  const [alerts, setAlerts] = useState<FleetAlert[]>([]);
+  const engineRef = useRef(createAlertEngine());
+
+  // Evaluation runs from store callbacks, so it reads the latest inputs from refs
+  const rulesRef = useRef(rules);
+  rulesRef.current = rules;
+  const zonesRef = useRef(zones);
+  zonesRef.current = zones;
+
+  const raise = useCallback((raised: FleetAlert[]) => {
+    setAlerts(prev => [...prev, ...raised].slice(-maxAlerts));
+    raised.forEach((alert) => {
+      onAlert?.(alert);
+      if (!showNotification) return;
+      const notify = alert.severity === 'critical'
+        ? notifyError
+        : alert.severity === 'warning'
+          ? notifyWarning
+          : notifyInfo;
+      notify(alert.ruleName, alert.message);
+    });
+  }, [maxAlerts, onAlert, showNotification, notifyError, notifyWarning, notifyInfo]);
+
+  const raiseRef = useRef(raise);
+  raiseRef.current = raise;
+
+  const evaluate = useCallback(() => {
+    const raised = engineRef.current.evaluate(
+      rulesRef.current,
+      Object.values(store.getState().vehicles),
+      zonesRef.current
+    );
+    if (raised.length > 0) {
+      raiseRef.current(raised);
+    }
+  }, [store]);
+
+  useEffect(() => {
+    evaluate();
+    const unsubscribe = store.subscribe(evaluate);
+    const intervalId = setInterval(evaluate, evaluateInterval);
+    return () => {
+      unsubscribe();
+      clearInterval(intervalId);
+    };
+  }, [store, evaluate, evaluateInterval]);
+
+  // Rule edits take effect straight away rather than on the next update
+  useEffect(() => {
+    evaluate();
+  }, [rules, evaluate]);
+
+  const acknowledge = useCallback((alertId: string) => {
+    setAlerts(prev => prev.map(alert =>
+      alert.id === alertId ? { ...alert, acknowledged: true } : alert
+    ));
+  }, []);
+
+  const clear = useCallback(() => {
+    setAlerts([]);
+  }, []);
+
+  const unacknowledgedCount = useMemo(
+    () => alerts.filter(alert => !alert.acknowledged).length,
+    [alerts]
+  );
+
+  return {
+    alerts,
+    unacknowledgedCount,
+    acknowledge,
+    clear,
+  };
+}
@@ -30,6 +30,38 @@ interface SpringOptions {
   velocity?: number;
 }
 
+export interface SpringState {
+  value: number;
+  velocity: number;
+}
+
+// Advance a damped spring towards its target by deltaTime seconds
+export function stepSpring(
+  state: SpringState,
+  targetValue: number,
+  deltaTime: number,
+  {
+    stiffness = 170,
+    damping = 26,
+    mass = 1,
+  }: Omit<SpringOptions, 'velocity'> = {}
+): SpringState & { isSettled: boolean } {
+  const spring = stiffness * (targetValue - state.value);
+  const damper = damping * state.velocity;
+  const acceleration = (spring - damper) / mass;
+
+  const velocity = state.velocity + acceleration * deltaTime;
+  const value = state.value + velocity * deltaTime;
+
+  // Check if spring has settled
+  const isSettled = Math.abs(velocity) < 0.01 &&
+    Math.abs(targetValue - value) < 0.01;
+
+  return isSettled
+    ? { value: targetValue, velocity: 0, isSettled }
+    : { value, velocity, isSettled };
+}
+
 export function useAnimation(keyframes: Keyframe[], options: AnimationOptions = {}) {
   const elementRef = useRef<HTMLElement | null>(null);
   const animationRef = useRef<Animation | null>(null);
@@ -223,21 +255,18 @@ export function useSpring(
       const deltaTime = Math.min((now - lastTime) / 1000, 0.1); // Cap at 100ms
       lastTime = now;
 
-      const spring = stiffness * (targetValue - currentValue);
-      const damper = damping * currentVelocity;
-      const acceleration = (spring - damper) / mass;
-
-      currentVelocity += acceleration * deltaTime;
-      currentValue += currentVelocity * deltaTime;
+      const next = stepSpring(
+        { value: currentValue, velocity: currentVelocity },
+        targetValue,
+        deltaTime,
+        { stiffness, damping, mass }
+      );
+      currentVelocity = next.velocity;
+      currentValue = next.value;
 
       setValue(currentValue);
 
-      // Check if spring has settled
-      const isSettled = Math.abs(currentVelocity) < 0.01 && 
-        Math.abs(targetValue - currentValue) < 0.01;
-
-      if (isSettled) {
-        setValue(targetValue);
+      if (next.isSettled) {
         setIsAnimating(false);
       } else {
         frameRef.current = requestAnimationFrame(animate);
@@ -268,6 +297,40 @@ export function useSpring(
   };
 }
 
+// Helper hook for running a callback on every animation frame
+export function useAnimationFrame(
+  callback: (deltaTime: number, time: number) => void,
+  active = true
+) {
+  const callbackRef = useRef(callback);
+  const frameRef = useRef<number>();
+
+  useEffect(() => {
+    callbackRef.current = callback;
+  }, [callback]);
+
+  useEffect(() => {
+    if (!active) return;
+
+    let lastTime = performance.now();
+
+    const loop = (time: number) => {
+      const deltaTime = time - lastTime;
+      lastTime = time;
+      callbackRef.current(deltaTime, time);
+      frameRef.current = requestAnimationFrame(loop);
+    };
+
+    frameRef.current = requestAnimationFrame(loop);
+
+    return () => {
+      if (frameRef.current) {
+        cancelAnimationFrame(frameRef.current);
+      }
+    };
+  }, [active]);
+}
+
 // Helper hook for CSS keyframe animations
 export function useCSSAnimation(
   animationName: string,
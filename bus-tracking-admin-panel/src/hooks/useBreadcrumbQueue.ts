@@ -0,0 +1,354 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useIndexedDB, IndexedDBOptions } from './useIndexedDB';
+import { useNetwork } from './useNetwork';
+import { getReconnectDelay } from './useWebSocket';
+import { tenantHeaders } from '@/lib/tenant';
+
+export interface Breadcrumb {
+  // Assigned by IndexedDB; preserves arrival order
+  id?: number;
+  vehicleId?: string;
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+  speed?: number;
+  heading?: number;
+  timestamp: number;
+}
+
+export interface BreadcrumbBatch {
+  // Stable across retries and reloads so the server can drop duplicates
+  batchId: string;
+  points: Breadcrumb[];
+}
+
+// A batch is a fixed key range of queued points, recorded before its first upload
+interface PendingBatch {
+  batchId: string;
+  fromId: number;
+  toId: number;
+  attempts: number;
+  retryAt: number | null;
+  createdAt: number;
+}
+
+interface UseBreadcrumbQueueOptions {
+  // POST target; ignored when a custom upload function is given
+  endpoint?: string;
+  headers?: Record<string, string>;
+  upload?: (batch: BreadcrumbBatch, body: Blob) => Promise<void>;
+  batchSize?: number;
+  // Above this many stored points, the oldest ones are thinned out
+  maxPoints?: number;
+  flushInterval?: number;
+  retryDelay?: number;
+  maxRetryDelay?: number;
+  onUploaded?: (batch: BreadcrumbBatch) => void;
+  onError?: (error: Error) => void;
+}
+
+interface BreadcrumbQueueState {
+  pendingCount: number;
+  isFlushing: boolean;
+  lastUploadAt: number | null;
+  nextRetryAt: number | null;
+  error: Error | null;
+}
+
+const POINT_STORE = 'points';
+const BATCH_STORE = 'batches';
+
+export const BREADCRUMB_DATABASE: IndexedDBOptions = {
+  databaseName: 'breadcrumbs',
+  version: 1,
+  stores: {
+    [POINT_STORE]: {
+      keyPath: 'id',
+      autoIncrement: true,
+      indexes: [{ name: 'timestamp', keyPath: 'timestamp' }],
+    },
+    [BATCH_STORE]: {
+      keyPath: 'batchId',
+    },
+  },
+};
+
+interface BreadcrumbUploadError extends Error {
+  // Rejected batches will keep failing, so they are dropped instead of retried
+  type: 'rejected' | 'failed';
+  status?: number;
+}
+
+const createUploadError = (
+  message: string,
+  type: BreadcrumbUploadError['type'],
+  status?: number
+): BreadcrumbUploadError => {
+  const error = new Error(message) as BreadcrumbUploadError;
+  error.type = type;
+  error.status = status;
+  return error;
+};
+
+const createBatchId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+// Gzip a JSON payload where the browser supports CompressionStream
+export async function compressJson(value: unknown): Promise<{ body: Blob; encoding: string | null }> {
+  const json = new Blob([JSON.stringify(value)], { type: 'application/json' });
+  if (typeof CompressionStream === 'undefined') {
+    return { body: json, encoding: null };
+  }
+
+  const stream = json.stream().pipeThrough(new CompressionStream('gzip'));
+  const body = await new Response(stream).blob();
+  return { body, encoding: 'gzip' };
+}
+
+// Points to delete when halving a run's resolution; the first and last stay
+export function selectPointsToThin(points: Breadcrumb[]): Breadcrumb[] {
+  return points.filter((_, i) => i % 2 === 1 && i !== points.length - 1);
+}
+
+export function useBreadcrumbQueue({
+  endpoint,
+  headers,
+  upload,
+  batchSize = 500,
+  maxPoints = 50000,
+  flushInterval = 30000,
+  retryDelay = 2000,
+  maxRetryDelay = 5 * 60 * 1000,
+  onUploaded,
+  onError,
+}: UseBreadcrumbQueueOptions = {}) {
+  const { online } = useNetwork();
+  const { db, add, getAll, put, remove, removeAll, count, query } =
+    useIndexedDB(BREADCRUMB_DATABASE);
+  const [state, setState] = useState<BreadcrumbQueueState>({
+    pendingCount: 0,
+    isFlushing: false,
+    lastUploadAt: null,
+    nextRetryAt: null,
+    error: null,
+  });
+
+  const flushingRef = useRef(false);
+  const retryTimeoutRef = useRef<NodeJS.Timeout>();
+
+  const refreshCount = useCallback(async () => {
+    const pendingCount = await count(POINT_STORE);
+    setState(prev => ({ ...prev, pendingCount }));
+    return pendingCount;
+  }, [count]);
+
+  const reportError = useCallback((error: unknown, fallback: string) => {
+    const err = error instanceof Error ? error : new Error(fallback);
+    setState(prev => ({ ...prev, error: err }));
+    onError?.(err);
+  }, [onError]);
+
+  const getPendingBatch = useCallback(async () => {
+    const batches = await getAll<PendingBatch>(BATCH_STORE);
+    return batches.sort((a, b) => a.createdAt - b.createdAt)[0] ?? null;
+  }, [getAll]);
+
+  // Halve the resolution of the oldest points until the queue fits the cap
+  const enforceCap = useCallback(async () => {
+    let total = await count(POINT_STORE);
+    if (total <= maxPoints) return;
+
+    // Points already promised to a batch must not change under its ID
+    const pending = await getPendingBatch();
+    const range = pending ? IDBKeyRange.lowerBound(pending.toId, true) : undefined;
+    const chunkSize = Math.max(2, Math.ceil(maxPoints / 4));
+
+    while (total > maxPoints) {
+      const oldest = await query<Breadcrumb>(POINT_STORE, { query: range, limit: chunkSize });
+      const dropped = selectPointsToThin(oldest);
+      if (dropped.length === 0) break;
+      await removeAll(POINT_STORE, dropped.map(point => point.id!));
+      total -= dropped.length;
+    }
+  }, [count, maxPoints, getPendingBatch, query, removeAll]);
+
+  const enqueue = useCallback(async (point: Breadcrumb) => {
+    if (!db) return;
+
+    try {
+      const { id: _id, ...record } = point;
+      await add(POINT_STORE, record);
+      const pendingCount = await refreshCount();
+      if (pendingCount > maxPoints) {
+        await enforceCap();
+        await refreshCount();
+      }
+    } catch (error) {
+      reportError(error, 'Failed to queue position');
+    }
+  }, [db, add, refreshCount, maxPoints, enforceCap, reportError]);
+
+  const sendBatch = useCallback(async (batch: BreadcrumbBatch) => {
+    const { body, encoding } = await compressJson(batch);
+    if (upload) {
+      await upload(batch, body);
+      return;
+    }
+    if (!endpoint) {
+      throw createUploadError('No upload endpoint configured', 'failed');
+    }
+
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: tenantHeaders({
+        ...headers,
+        'Content-Type': 'application/json',
+        'Idempotency-Key': batch.batchId,
+        ...(encoding ? { 'Content-Encoding': encoding } : {}),
+      }),
+      body,
+    });
+
+    // 409 means the server already has this batch
+    if (response.ok || response.status === 409) return;
+    // 401 usually means the session is being renewed, so it is retried too; a 403
+    // (revoked role, wrong tenant) will not clear up and rejects the batch
+    const retryable = [401, 408, 429];
+    if (response.status >= 400 && response.status < 500 && !retryable.includes(response.status)) {
+      throw createUploadError(
+        `Breadcrumb batch rejected: ${response.status}`,
+        'rejected',
+        response.status
+      );
+    }
+    throw createUploadError(
+      `Breadcrumb upload failed: ${response.status}`,
+      'failed',
+      response.status
+    );
+  }, [upload, endpoint, headers]);
+
+  // Upload queued points oldest first, one batch at a time. Unless forced,
+  // a batch that failed recently waits out its backoff.
+  const flush = useCallback(async (force = false) => {
+    if (!db || !online || flushingRef.current) return;
+
+    flushingRef.current = true;
+    clearTimeout(retryTimeoutRef.current);
+    setState(prev => ({ ...prev, isFlushing: true, nextRetryAt: null }));
+
+    let pending: PendingBatch | null = null;
+    try {
+      for (;;) {
+        pending = await getPendingBatch();
+
+        if (pending?.retryAt && !force && pending.retryAt > Date.now()) {
+          const delay = pending.retryAt - Date.now();
+          setState(prev => ({ ...prev, nextRetryAt: pending!.retryAt }));
+          retryTimeoutRef.current = setTimeout(() => flushRef.current(), delay);
+          pending = null;
+          break;
+        }
+
+        if (!pending) {
+          const next = await query<Breadcrumb>(POINT_STORE, { limit: batchSize });
+          if (next.length === 0) break;
+          pending = {
+            batchId: createBatchId(),
+            fromId: next[0].id!,
+            toId: next[next.length - 1].id!,
+            attempts: 0,
+            retryAt: null,
+            createdAt: Date.now(),
+          };
+          await put(BATCH_STORE, pending);
+        }
+
+        const points = await query<Breadcrumb>(POINT_STORE, {
+          query: IDBKeyRange.bound(pending.fromId, pending.toId),
+        });
+
+        let rejected = false;
+        try {
+          await sendBatch({ batchId: pending.batchId, points });
+        } catch (error) {
+          if ((error as BreadcrumbUploadError).type !== 'rejected') throw error;
+          reportError(error, 'Breadcrumb batch rejected');
+          rejected = true;
+        }
+
+        // Rejected batches are dropped so they don't block the queue, but never reported as uploaded
+        await remove(POINT_STORE, IDBKeyRange.bound(pending.fromId, pending.toId));
+        await remove(BATCH_STORE, pending.batchId);
+        if (!rejected) {
+          setState(prev => ({ ...prev, lastUploadAt: Date.now(), error: null }));
+          onUploaded?.({ batchId: pending.batchId, points });
+        }
+        pending = null;
+      }
+    } catch (error) {
+      reportError(error, 'Failed to upload positions');
+
+      // Back off before trying the same batch again
+      if (pending) {
+        const attempts = pending.attempts + 1;
+        const delay = getReconnectDelay(attempts - 1, {
+          baseDelay: retryDelay,
+          maxDelay: maxRetryDelay,
+        });
+        const retryAt = Date.now() + delay;
+        await put(BATCH_STORE, { ...pending, attempts, retryAt }).catch(() => {});
+        setState(prev => ({ ...prev, nextRetryAt: retryAt }));
+        retryTimeoutRef.current = setTimeout(() => flushRef.current(), delay);
+      }
+    } finally {
+      flushingRef.current = false;
+      setState(prev => ({ ...prev, isFlushing: false }));
+      refreshCount().catch(() => {});
+    }
+  }, [
+    db,
+    online,
+    batchSize,
+    retryDelay,
+    maxRetryDelay,
+    getPendingBatch,
+    query,
+    put,
+    remove,
+    sendBatch,
+    refreshCount,
+    reportError,
+    onUploaded,
+  ]);
+
+  // Timers always call the latest flush
+  const flushRef = useRef(flush);
+  flushRef.current = flush;
+
+  // Upload as soon as the device comes back online, then periodically
+  useEffect(() => {
+    if (!db) return;
+    refreshCount().catch(() => {});
+    if (!online) return;
+
+    flushRef.current(true);
+    const intervalId = setInterval(() => flushRef.current(), flushInterval);
+    return () => clearInterval(intervalId);
+  }, [db, online, flushInterval, refreshCount]);
+
+  useEffect(() => {
+    return () => clearTimeout(retryTimeoutRef.current);
+  }, []);
+
+  return {
+    ...state,
+    isOnline: online,
+    enqueue,
+    flush,
+  };
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useCallback, useRef, useEffect } from 'react';
+import { tenantKey } from '@/lib/tenant';
 
 interface CacheEntry<T> {
   data: T;
@@ -58,18 +59,21 @@ export function useCache<T>(
   const cacheRef = useRef(new Map<string, CacheEntry<T>>());
   const accessOrderRef = useRef<string[]>([]);
 
+  // Storage entries are namespaced per tenant so agencies never read each other's cache
+  const prefix = tenantKey('cache:');
+
   // Initialize from storage if available
   useEffect(() => {
     if (!storage) return;
 
     try {
-      const keys = Object.keys(storage).filter(k => k.startsWith('cache:'));
+      const keys = Object.keys(storage).filter(k => k.startsWith(prefix));
       keys.forEach(key => {
         const rawData = storage.getItem(key);
         if (rawData) {
           const { data, timestamp, expiresAt } = deserialize(rawData);
           if (Date.now() < expiresAt && (!validate || validate(data))) {
-            const cacheKey = key.replace('cache:', '');
+            const cacheKey = key.slice(prefix.length);
             cacheRef.current.set(cacheKey, { data, timestamp, expiresAt });
             accessOrderRef.current.push(cacheKey);
           } else {
@@ -82,7 +86,7 @@ export function useCache<T>(
       setError(error);
       onError?.(error);
     }
-  }, [storage, deserialize, validate, onError]);
+  }, [storage, prefix, deserialize, validate, onError]);
 
   // Update access order
   const updateAccessOrder = useCallback((key: string) => {
@@ -99,11 +103,11 @@ export function useCache<T>(
       if (lastKey) {
         cacheRef.current.delete(lastKey);
         if (storage) {
-          storage.removeItem(`cache:${lastKey}`);
+          storage.removeItem(`${prefix}${lastKey}`);
         }
       }
     }
-  }, [maxSize, storage]);
+  }, [maxSize, storage, prefix]);
 
   // Set cache entry
   const set = useCallback((key: string, value: T) => {
@@ -123,7 +127,7 @@ export function useCache<T>(
       enforceSizeLimit();
 
       if (storage) {
-        storage.setItem(`cache:${key}`, serialize(entry));
+        storage.setItem(`${prefix}${key}`, serialize(entry));
       }
 
       setData(value);
@@ -133,7 +137,7 @@ export function useCache<T>(
       setError(error);
       onError?.(error);
     }
-  }, [ttl, validate, storage, serialize, updateAccessOrder, enforceSizeLimit, onError]);
+  }, [ttl, validate, storage, prefix, serialize, updateAccessOrder, enforceSizeLimit, onError]);
 
   // Get cache entry
   const get = useCallback((key: string): T | null => {
@@ -144,23 +148,23 @@ export function useCache<T>(
     if (Date.now() > entry.expiresAt) {
       cacheRef.current.delete(key);
       if (storage) {
-        storage.removeItem(`cache:${key}`);
+        storage.removeItem(`${prefix}${key}`);
       }
       return null;
     }
 
     updateAccessOrder(key);
     return entry.data;
-  }, [storage, updateAccessOrder]);
+  }, [storage, prefix, updateAccessOrder]);
 
   // Remove cache entry
   const remove = useCallback((key: string) => {
     cacheRef.current.delete(key);
     accessOrderRef.current = accessOrderRef.current.filter(k => k !== key);
     if (storage) {
-      storage.removeItem(`cache:${key}`);
+      storage.removeItem(`${prefix}${key}`);
     }
-  }, [storage]);
+  }, [storage, prefix]);
 
   // Clear cache
   const clear = useCallback(() => {
@@ -168,10 +172,10 @@ export function useCache<T>(
     accessOrderRef.current = [];
     if (storage) {
       Object.keys(storage)
-        .filter(k => k.startsWith('cache:'))
+        .filter(k => k.startsWith(prefix))
         .forEach(k => storage.removeItem(k));
     }
-  }, [storage]);
+  }, [storage, prefix]);
 
   // Check if key exists in cache
   const has = useCallback((key: string): boolean => {
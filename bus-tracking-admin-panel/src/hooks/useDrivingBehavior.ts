@@ -0,0 +1,338 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useSensors, MotionData } from './useSensors';
+import { useGeolocation, Coordinates, FilteredPosition } from './useGeolocation';
+
+export type HarshDrivingType = 'harsh-braking' | 'harsh-acceleration' | 'sharp-cornering';
+export type HarshDrivingSeverity = 'low' | 'medium' | 'high';
+
+export interface HarshDrivingEvent {
+  id: string;
+  type: HarshDrivingType;
+  severity: HarshDrivingSeverity;
+  // Peak acceleration in m/s² along the axis that triggered the event
+  peak: number;
+  duration: number; // milliseconds
+  // GPS speed in m/s when the event started, and its change by the end
+  speed: number | null;
+  speedChange: number | null;
+  location: Coordinates | null;
+  timestamp: number;
+}
+
+export interface HarshDrivingThresholds {
+  braking: number;
+  acceleration: number;
+  cornering: number;
+}
+
+export interface HarshDrivingDetectorOptions {
+  // Acceleration thresholds in m/s²
+  thresholds?: Partial<HarshDrivingThresholds>;
+  // Shorter spikes are treated as bumps or the tablet being handled
+  minDuration?: number;
+  // Below this GPS speed in m/s the vehicle is treated as stationary
+  minSpeed?: number;
+  // Time constant in milliseconds of the low-pass filter that tracks gravity
+  gravityTimeConstant?: number;
+  // Time constant in milliseconds for smoothing the horizontal acceleration
+  smoothingTimeConstant?: number;
+}
+
+type Vector = [number, number, number];
+
+const DEFAULT_THRESHOLDS: HarshDrivingThresholds = {
+  braking: 3.4,
+  acceleration: 2.9,
+  cornering: 3.4,
+};
+
+// Events end once the signal drops below this fraction of the threshold
+const RELEASE_RATIO = 0.7;
+// GPS speed changes smaller than this (m/s²) say nothing about the forward axis
+const CALIBRATION_ACCELERATION = 1;
+const CALIBRATION_SAMPLES = 3;
+
+const dot = (a: Vector, b: Vector) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const scale = (a: Vector, k: number): Vector => [a[0] * k, a[1] * k, a[2] * k];
+const add = (a: Vector, b: Vector): Vector => [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
+const subtract = (a: Vector, b: Vector): Vector => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const length = (a: Vector) => Math.sqrt(dot(a, a));
+const normalize = (a: Vector): Vector => {
+  const l = length(a);
+  return l > 0 ? scale(a, 1 / l) : a;
+};
+// Component of a perpendicular to the unit vector axis
+const reject = (a: Vector, axis: Vector) => subtract(a, scale(axis, dot(a, axis)));
+
+export function classifySeverity(peak: number, threshold: number): HarshDrivingSeverity {
+  const ratio = peak / threshold;
+  if (ratio >= 1.6) return 'high';
+  if (ratio >= 1.3) return 'medium';
+  return 'low';
+}
+
+// Detects harsh manoeuvres from raw device motion. The tablet can be mounted at
+// any angle, so gravity is tracked with a low-pass filter and the forward axis
+// is learned from how GPS speed changes. Plain data and functions only.
+export function createHarshDrivingDetector({
+  thresholds: thresholdOverrides,
+  minDuration = 300,
+  minSpeed = 3,
+  gravityTimeConstant = 3000,
+  smoothingTimeConstant = 150,
+}: HarshDrivingDetectorOptions = {}) {
+  const thresholds = { ...DEFAULT_THRESHOLDS, ...thresholdOverrides };
+
+  let gravity: Vector | null = null;
+  let horizontal: Vector = [0, 0, 0];
+  let lastMotionTime = 0;
+
+  // Forward axis in device coordinates, once enough speed changes have been seen
+  let forward: Vector | null = null;
+  let calibrationSamples = 0;
+  let accumulated: Vector = [0, 0, 0];
+  let accumulatedCount = 0;
+
+  let lastFix: { position: Coordinates; speed: number; timestamp: number } | null = null;
+  let previousSpeed: number | null = null;
+  let speedTrend = 0; // m/s² from the last two GPS fixes
+
+  let active: {
+    type: HarshDrivingType;
+    start: number;
+    peak: number;
+    speed: number | null;
+    location: Coordinates | null;
+  } | null = null;
+  let eventCount = 0;
+
+  // Feed a GPS fix; changes in speed calibrate the forward axis
+  const addPosition = (position: Coordinates, speed: number, timestamp: number) => {
+    if (lastFix && timestamp > lastFix.timestamp) {
+      const elapsed = (timestamp - lastFix.timestamp) / 1000;
+      speedTrend = (speed - lastFix.speed) / elapsed;
+
+      if (Math.abs(speedTrend) >= CALIBRATION_ACCELERATION && accumulatedCount > 0 && gravity) {
+        const up = normalize(gravity);
+        const sample = normalize(reject(scale(accumulated, Math.sign(speedTrend)), up));
+        const weight = 1 / (calibrationSamples + 1);
+        const blended = forward ? add(scale(forward, 1 - weight), scale(sample, weight)) : sample;
+        forward = normalize(reject(blended, up));
+        calibrationSamples += 1;
+      }
+    }
+
+    previousSpeed = lastFix?.speed ?? null;
+    lastFix = { position, speed, timestamp };
+    accumulated = [0, 0, 0];
+    accumulatedCount = 0;
+  };
+
+  const finish = (timestamp: number): HarshDrivingEvent | null => {
+    const ended = active;
+    active = null;
+    if (!ended || timestamp - ended.start < minDuration) return null;
+
+    const threshold = ended.type === 'harsh-braking'
+      ? thresholds.braking
+      : ended.type === 'harsh-acceleration'
+        ? thresholds.acceleration
+        : thresholds.cornering;
+
+    eventCount += 1;
+    return {
+      id: `${ended.start}-${eventCount}`,
+      type: ended.type,
+      severity: classifySeverity(ended.peak, threshold),
+      peak: ended.peak,
+      duration: timestamp - ended.start,
+      speed: ended.speed,
+      speedChange: ended.speed !== null && lastFix ? lastFix.speed - ended.speed : null,
+      location: ended.location,
+      timestamp: ended.start,
+    };
+  };
+
+  // Feed a motion sample; returns an event when a manoeuvre has just finished
+  const addMotion = (
+    acceleration: { x: number; y: number; z: number },
+    timestamp: number
+  ): HarshDrivingEvent | null => {
+    const raw: Vector = [acceleration.x, acceleration.y, acceleration.z];
+    const dt = lastMotionTime > 0 ? Math.max(0, timestamp - lastMotionTime) : 0;
+    lastMotionTime = timestamp;
+
+    // Hold the gravity estimate during a manoeuvre so it does not absorb it
+    if (!gravity) {
+      gravity = raw;
+    } else if (!active) {
+      gravity = add(gravity, scale(subtract(raw, gravity), dt / (gravityTimeConstant + dt)));
+    }
+    const up = normalize(gravity);
+    const linear = reject(subtract(raw, gravity), up);
+    horizontal = add(horizontal, scale(subtract(linear, horizontal), dt / (smoothingTimeConstant + dt)));
+
+    accumulated = add(accumulated, horizontal);
+    accumulatedCount += 1;
+
+    // Ignore the tablet being moved around while the bus is parked
+    const speed = Math.max(lastFix?.speed ?? 0, previousSpeed ?? 0);
+    if (!lastFix || speed < minSpeed) {
+      return finish(timestamp);
+    }
+
+    let type: HarshDrivingType | null = null;
+    let magnitude = 0;
+
+    if (forward && calibrationSamples >= CALIBRATION_SAMPLES) {
+      const longitudinal = dot(horizontal, forward);
+      const lateral = length(reject(horizontal, forward));
+      const releasing = (threshold: number, candidate: HarshDrivingType) =>
+        active?.type === candidate ? threshold * RELEASE_RATIO : threshold;
+
+      if (-longitudinal >= releasing(thresholds.braking, 'harsh-braking')) {
+        type = 'harsh-braking';
+        magnitude = -longitudinal;
+      } else if (longitudinal >= releasing(thresholds.acceleration, 'harsh-acceleration')) {
+        type = 'harsh-acceleration';
+        magnitude = longitudinal;
+      } else if (lateral >= releasing(thresholds.cornering, 'sharp-cornering')) {
+        type = 'sharp-cornering';
+        magnitude = lateral;
+      }
+    } else {
+      // Before calibration, use the GPS speed trend to tell braking from acceleration
+      magnitude = length(horizontal);
+      const candidate: HarshDrivingType = speedTrend <= -CALIBRATION_ACCELERATION
+        ? 'harsh-braking'
+        : speedTrend >= CALIBRATION_ACCELERATION
+          ? 'harsh-acceleration'
+          : 'sharp-cornering';
+      const threshold = candidate === 'harsh-braking'
+        ? thresholds.braking
+        : candidate === 'harsh-acceleration'
+          ? thresholds.acceleration
+          : thresholds.cornering;
+      if (magnitude >= (active?.type === candidate ? threshold * RELEASE_RATIO : threshold)) {
+        type = candidate;
+      }
+    }
+
+    if (active && active.type !== type) {
+      const ended = finish(timestamp);
+      if (type) {
+        active = { type, start: timestamp, peak: magnitude, speed: lastFix.speed, location: lastFix.position };
+      }
+      return ended;
+    }
+
+    if (type) {
+      if (!active) {
+        active = { type, start: timestamp, peak: magnitude, speed: lastFix.speed, location: lastFix.position };
+      } else {
+        active.peak = Math.max(active.peak, magnitude);
+      }
+    }
+    return null;
+  };
+
+  const reset = () => {
+    gravity = null;
+    horizontal = [0, 0, 0];
+    lastMotionTime = 0;
+    forward = null;
+    calibrationSamples = 0;
+    accumulated = [0, 0, 0];
+    accumulatedCount = 0;
+    lastFix = null;
+    previousSpeed = null;
+    speedTrend = 0;
+    active = null;
+  };
+
+  return {
+    addMotion,
+    addPosition,
+    isCalibrated: () => calibrationSamples >= CALIBRATION_SAMPLES,
+    reset,
+  };
+}
+
+interface UseHarshDrivingOptions extends HarshDrivingDetectorOptions {
+  // Number of events kept in memory until they are uploaded
+  maxEvents?: number;
+  onEvent?: (event: HarshDrivingEvent) => void;
+}
+
+export function useHarshDrivingDetection({
+  maxEvents = 200,
+  onEvent,
+  ...detectorOptions
+}: UseHarshDrivingOptions = {}) {
+  const [events, setEvents] = useState<HarshDrivingEvent[]>([]);
+  const eventsRef = useRef<HarshDrivingEvent[]>([]);
+  const [isCalibrated, setIsCalibrated] = useState(false);
+  const detectorRef = useRef<ReturnType<typeof createHarshDrivingDetector> | null>(null);
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  // Recreate the detector when its configuration changes
+  const optionsKey = JSON.stringify(detectorOptions);
+  useEffect(() => {
+    detectorRef.current = createHarshDrivingDetector(detectorOptions);
+    setIsCalibrated(false);
+  }, [optionsKey]);
+
+  const handleMotion = useCallback((data: MotionData) => {
+    const { x, y, z } = data.accelerationIncludingGravity;
+    const detector = detectorRef.current;
+    if (!detector || x === null || y === null || z === null) return;
+
+    const event = detector.addMotion({ x, y, z }, Date.now());
+    if (event) {
+      eventsRef.current = [...eventsRef.current, event].slice(-maxEvents);
+      setEvents(eventsRef.current);
+      onEventRef.current?.(event);
+    }
+  }, [maxEvents]);
+
+  const handlePosition = useCallback((position: FilteredPosition) => {
+    const detector = detectorRef.current;
+    if (!detector) return;
+    detector.addPosition(position, position.speed, position.timestamp);
+    setIsCalibrated(detector.isCalibrated());
+  }, []);
+
+  const { isMotionAvailable, error, requestPermission } = useSensors({
+    onMotionChange: handleMotion,
+  });
+  const { startWatching, stopWatching, error: locationError } = useGeolocation({
+    smoothing: true,
+    onFilteredPosition: handlePosition,
+  });
+
+  useEffect(() => {
+    startWatching();
+    return stopWatching;
+  }, [startWatching, stopWatching]);
+
+  // Hand pending events over for upload and forget them
+  const takeEvents = useCallback(() => {
+    const taken = eventsRef.current;
+    eventsRef.current = [];
+    setEvents([]);
+    return taken;
+  }, []);
+
+  return {
+    events,
+    lastEvent: events[events.length - 1] ?? null,
+    isCalibrated,
+    isAvailable: isMotionAvailable,
+    error: error ?? locationError,
+    requestPermission,
+    takeEvents,
+  };
+}
@@ -25,7 +25,7 @@ export interface FilterCondition<T> {
   value: any;
 }
 
-interface FilterConfig<T> {
+export interface FilterConfig<T> {
   conditions: FilterCondition<T>[];
   conjunction: 'AND' | 'OR';
 }
@@ -70,6 +70,36 @@ const defaultOperators = {
   isNotNull: (value: any) => value !== null && value !== undefined,
 };
 
+type FilterOperators = Record<FilterOperator, (value: any, filterValue: any) => boolean>;
+
+// Apply filter conditions outside React, e.g. to analytics rows
+export function applyFilter<T extends Record<string, any>>(
+  items: T[],
+  filterConfig: FilterConfig<T>,
+  operators: Partial<FilterOperators> = defaultOperators
+): T[] {
+  if (filterConfig.conditions.length === 0) return items;
+
+  return items.filter(item => {
+    const results = filterConfig.conditions.map(condition => {
+      const { field, operator, value } = condition;
+      const itemValue = item[field];
+      const operatorFn = operators[operator];
+
+      if (!operatorFn) {
+        console.warn(`Unknown operator: ${operator}`);
+        return true;
+      }
+
+      return operatorFn(itemValue, value);
+    });
+
+    return filterConfig.conjunction === 'AND'
+      ? results.every(Boolean)
+      : results.some(Boolean);
+  });
+}
+
 export function useFilter<T extends Record<string, any>>(
   items: T[],
   {
@@ -85,28 +115,10 @@ export function useFilter<T extends Record<string, any>>(
   );
 
   // Apply filters to items
-  const filteredItems = useMemo(() => {
-    if (filterConfig.conditions.length === 0) return items;
-
-    return items.filter(item => {
-      const results = filterConfig.conditions.map(condition => {
-        const { field, operator, value } = condition;
-        const itemValue = item[field];
-        const operatorFn = operators[operator];
-
-        if (!operatorFn) {
-          console.warn(`Unknown operator: ${operator}`);
-          return true;
-        }
-
-        return operatorFn(itemValue, value);
-      });
-
-      return filterConfig.conjunction === 'AND'
-        ? results.every(Boolean)
-        : results.some(Boolean);
-    });
-  }, [items, filterConfig, operators]);
+  const filteredItems = useMemo(
+    () => applyFilter(items, filterConfig, operators),
+    [items, filterConfig, operators]
+  );
 
   // Add a new filter condition
   const addFilter = useCallback((condition: FilterCondition<T>) => {
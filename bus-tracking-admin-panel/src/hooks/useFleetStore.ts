@@ -0,0 +1,368 @@
+'use client';
+
+import { useEffect, useCallback, useMemo, useRef, useSyncExternalStore } from 'react';
+import { useWebSocketSubscription, WebSocketOptions } from './useWebSocket';
+import { OccupancyStatus, VehiclePosition, occupancyStatusForLoad } from './useGtfsRealtime';
+
+export type VehicleStatus = 'in-service' | 'out-of-service' | 'layover' | 'offline';
+
+export interface VehicleCapacity {
+  seated: number;
+  // Seated plus standing places
+  total: number;
+}
+
+// Running passenger load derived from APC counts
+export interface VehicleOccupancy {
+  load: number;
+  capacity: VehicleCapacity;
+  // Trip the load was counted on; a new trip starts from empty
+  tripId?: string;
+  boardings: number;
+  alightings: number;
+  updatedAt: number;
+}
+
+// One report from an automatic passenger counter, usually at a stop
+export interface PassengerCount {
+  vehicleId: string;
+  tripId?: string;
+  stopId?: string;
+  boardings: number;
+  alightings: number;
+  // Some counters report the on-board load directly
+  load?: number;
+  capacity?: VehicleCapacity;
+  timestamp: number;
+}
+
+export interface FleetVehicle {
+  vehicleId: string;
+  label?: string;
+  routeId?: string;
+  tripId?: string;
+  position?: {
+    latitude: number;
+    longitude: number;
+    bearing?: number;
+    speed?: number; // metres per second
+  };
+  occupancyStatus?: OccupancyStatus;
+  occupancyPercentage?: number;
+  occupancy?: VehicleOccupancy;
+  capacity?: VehicleCapacity;
+  // Schedule deviation in seconds, positive = late
+  delay?: number;
+  isOffRoute?: boolean;
+  doorOpen?: boolean;
+  status: VehicleStatus;
+  // Time of the last update received for this vehicle
+  updatedAt: number;
+  // Time of the last position fix; staleness follows this, so APC counts or
+  // status updates from a bus with dead GPS do not hide it
+  positionUpdatedAt?: number;
+  isStale: boolean;
+}
+
+export type FleetVehicleUpdate = Partial<Omit<FleetVehicle, 'isStale' | 'positionUpdatedAt'>> & {
+  vehicleId: string;
+};
+
+export interface FleetState {
+  vehicles: Record<string, FleetVehicle>;
+  lastSnapshotAt: number | null;
+}
+
+type Listener = () => void;
+
+export const DEFAULT_VEHICLE_CAPACITY: VehicleCapacity = { seated: 40, total: 80 };
+
+// Vehicles that never reported a position fall back to when they were last heard from
+export const lastPositionAt = (vehicle: FleetVehicle) =>
+  vehicle.positionUpdatedAt ?? vehicle.updatedAt;
+
+// Merge an update into a vehicle. Fields the update leaves undefined keep their
+// value, and only a new position clears the stale flag.
+function mergeVehicle(
+  existing: FleetVehicle | undefined,
+  update: FleetVehicleUpdate,
+  now: number
+): FleetVehicle {
+  const base: FleetVehicle = existing ?? {
+    vehicleId: update.vehicleId,
+    status: 'in-service',
+    updatedAt: now,
+    isStale: false,
+  };
+  const defined = Object.fromEntries(
+    Object.entries(update).filter(([, value]) => value !== undefined)
+  ) as FleetVehicleUpdate;
+  const updatedAt = update.updatedAt ?? now;
+
+  return {
+    ...base,
+    ...defined,
+    position: update.position ? { ...base.position, ...update.position } : base.position,
+    updatedAt,
+    positionUpdatedAt: update.position ? updatedAt : base.positionUpdatedAt,
+    isStale: update.position ? false : base.isStale,
+  };
+}
+
+// Add an APC count to a vehicle's running load and derive its occupancy band
+function applyPassengerCount(
+  vehicle: FleetVehicle | undefined,
+  count: PassengerCount
+): FleetVehicleUpdate {
+  const capacity = count.capacity ?? vehicle?.capacity ?? DEFAULT_VEHICLE_CAPACITY;
+  const tripId = count.tripId ?? vehicle?.tripId;
+  const previous = vehicle?.occupancy;
+  const sameTrip = previous !== undefined && previous.tripId === tripId;
+
+  const load = Math.max(0, count.load ??
+    (sameTrip ? previous.load : 0) + count.boardings - count.alightings);
+
+  return {
+    vehicleId: count.vehicleId,
+    capacity,
+    occupancy: {
+      load,
+      capacity,
+      tripId,
+      boardings: (sameTrip ? previous.boardings : 0) + count.boardings,
+      alightings: (sameTrip ? previous.alightings : 0) + count.alightings,
+      updatedAt: count.timestamp,
+    },
+    occupancyStatus: occupancyStatusForLoad(load, capacity),
+    occupancyPercentage: capacity.total > 0 ? Math.round((load / capacity.total) * 100) : undefined,
+  };
+}
+
+export function createFleetStore() {
+  let state: FleetState = { vehicles: {}, lastSnapshotAt: null };
+  const listeners = new Set<Listener>();
+
+  const emit = (next: FleetState) => {
+    state = next;
+    listeners.forEach(listener => listener());
+  };
+
+  const subscribe = (listener: Listener) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const getState = () => state;
+
+  // Apply incremental updates; untouched vehicles keep their identity
+  const applyUpdates = (updates: FleetVehicleUpdate[], now = Date.now()) => {
+    if (updates.length === 0) return;
+    const vehicles = { ...state.vehicles };
+    updates.forEach((update) => {
+      vehicles[update.vehicleId] = mergeVehicle(vehicles[update.vehicleId], update, now);
+    });
+    emit({ ...state, vehicles });
+  };
+
+  // Replace the fleet with a full snapshot from the server; each record is taken
+  // as sent, so flags the server no longer reports do not survive a resync
+  const applySnapshot = (snapshot: FleetVehicleUpdate[], now = Date.now()) => {
+    const vehicles: Record<string, FleetVehicle> = {};
+    snapshot.forEach((update) => {
+      vehicles[update.vehicleId] = mergeVehicle(undefined, update, now);
+    });
+    emit({ vehicles, lastSnapshotAt: now });
+  };
+
+  // Counts are applied in order, so several for one vehicle accumulate
+  const applyPassengerCounts = (counts: PassengerCount[], now = Date.now()) => {
+    if (counts.length === 0) return;
+    const vehicles = { ...state.vehicles };
+    counts.forEach((count) => {
+      const vehicle = vehicles[count.vehicleId];
+      vehicles[count.vehicleId] = mergeVehicle(vehicle, applyPassengerCount(vehicle, count), now);
+    });
+    emit({ ...state, vehicles });
+  };
+
+  const removeVehicle = (vehicleId: string) => {
+    if (!state.vehicles[vehicleId]) return;
+    const { [vehicleId]: _removed, ...vehicles } = state.vehicles;
+    emit({ ...state, vehicles });
+  };
+
+  // Flag vehicles that have not reported a position within staleAfter milliseconds
+  const markStale = (staleAfter: number, now = Date.now()) => {
+    let changed = false;
+    const vehicles = { ...state.vehicles };
+
+    Object.values(vehicles).forEach((vehicle) => {
+      const isStale = now - lastPositionAt(vehicle) > staleAfter;
+      if (isStale !== vehicle.isStale) {
+        vehicles[vehicle.vehicleId] = { ...vehicle, isStale };
+        changed = true;
+      }
+    });
+
+    if (changed) {
+      emit({ ...state, vehicles });
+    }
+  };
+
+  const reset = () => emit({ vehicles: {}, lastSnapshotAt: null });
+
+  return {
+    subscribe,
+    getState,
+    applyUpdates,
+    applyUpdate: (update: FleetVehicleUpdate, now?: number) => applyUpdates([update], now),
+    applySnapshot,
+    applyPassengerCounts,
+    removeVehicle,
+    markStale,
+    reset,
+  };
+}
+
+export type FleetStore = ReturnType<typeof createFleetStore>;
+
+// Shared store for the whole panel
+export const fleetStore = createFleetStore();
+
+// Convert a decoded GTFS-Realtime vehicle position into a fleet update
+export function vehiclePositionToUpdate(vehicle: VehiclePosition): FleetVehicleUpdate {
+  return {
+    vehicleId: vehicle.vehicle?.id ?? vehicle.entityId,
+    label: vehicle.vehicle?.label,
+    routeId: vehicle.trip?.routeId,
+    tripId: vehicle.trip?.tripId,
+    position: vehicle.position && {
+      latitude: vehicle.position.latitude,
+      longitude: vehicle.position.longitude,
+      bearing: vehicle.position.bearing,
+      speed: vehicle.position.speed,
+    },
+    occupancyStatus: vehicle.occupancyStatus,
+    occupancyPercentage: vehicle.occupancyPercentage,
+    updatedAt: vehicle.timestamp,
+  };
+}
+
+const shallowEqualArrays = <T>(a: T[], b: T[]) =>
+  a.length === b.length && a.every((value, i) => Object.is(value, b[i]));
+
+// Subscribe to a slice of fleet state; re-renders only when the slice changes
+export function useFleetSelector<T>(
+  selector: (state: FleetState) => T,
+  isEqual: (a: T, b: T) => boolean = Object.is,
+  store: FleetStore = fleetStore
+): T {
+  const cacheRef = useRef<{
+    state: FleetState;
+    selector: (state: FleetState) => T;
+    isEqual: (a: T, b: T) => boolean;
+    value: T;
+  } | null>(null);
+
+  // A new selector (e.g. another vehicleId) must select again without waiting for the store
+  const getSelection = useCallback(() => {
+    const state = store.getState();
+    const cached = cacheRef.current;
+    if (cached && cached.state === state && cached.selector === selector && cached.isEqual === isEqual) {
+      return cached.value;
+    }
+
+    const value = selector(state);
+    if (cached && isEqual(cached.value, value)) {
+      cacheRef.current = { state, selector, isEqual, value: cached.value };
+      return cached.value;
+    }
+
+    cacheRef.current = { state, selector, isEqual, value };
+    return value;
+  }, [store, selector, isEqual]);
+
+  return useSyncExternalStore(store.subscribe, getSelection, getSelection);
+}
+
+export function useFleetVehicle(vehicleId: string, store: FleetStore = fleetStore) {
+  const selector = useCallback(
+    (state: FleetState) => state.vehicles[vehicleId] as FleetVehicle | undefined,
+    [vehicleId]
+  );
+  return useFleetSelector(selector, Object.is, store);
+}
+
+// Helper hook for lists: ids only change when vehicles join, leave or stop matching
+export function useFleetVehicleIds(
+  filter?: (vehicle: FleetVehicle) => boolean,
+  store: FleetStore = fleetStore
+) {
+  const selector = useCallback(
+    (state: FleetState) => Object.values(state.vehicles)
+      .filter(vehicle => !filter || filter(vehicle))
+      .map(vehicle => vehicle.vehicleId)
+      .sort(),
+    [filter]
+  );
+  return useFleetSelector(selector, shallowEqualArrays, store);
+}
+
+// Helper hook for feeding the store from the real-time WebSocket
+interface UseFleetSyncOptions extends Omit<WebSocketOptions, 'url' | 'onMessage'> {
+  // Age in milliseconds after which a vehicle is marked stale
+  staleAfter?: number;
+  store?: FleetStore;
+}
+
+export function useFleetSync(
+  url: string,
+  {
+    staleAfter = 2 * 60 * 1000,
+    store = fleetStore,
+    sequenced = true,
+    ...options
+  }: UseFleetSyncOptions = {}
+) {
+  const subscriptions = useMemo(() => [
+    {
+      event: 'vehicle_update',
+      handler: (data: FleetVehicleUpdate | FleetVehicleUpdate[]) =>
+        store.applyUpdates(Array.isArray(data) ? data : [data]),
+    },
+    {
+      event: 'fleet_snapshot',
+      handler: (data: FleetVehicleUpdate[]) => store.applySnapshot(data),
+    },
+    {
+      event: 'passenger_counts',
+      handler: (data: PassengerCount | PassengerCount[]) =>
+        store.applyPassengerCounts(Array.isArray(data) ? data : [data]),
+    },
+    {
+      event: 'vehicle_removed',
+      handler: (data: { vehicleId: string }) => store.removeVehicle(data.vehicleId),
+    },
+  ], [store]);
+
+  const ws = useWebSocketSubscription(url, subscriptions, { ...options, sequenced });
+
+  useEffect(() => {
+    const intervalId = setInterval(
+      () => store.markStale(staleAfter),
+      Math.max(1000, Math.min(staleAfter / 4, 15000))
+    );
+    return () => clearInterval(intervalId);
+  }, [store, staleAfter]);
+
+  // Sequenced connections resume or request a snapshot themselves
+  useEffect(() => {
+    if (ws.connected && !sequenced) {
+      ws.send({ type: 'snapshot_request' });
+    }
+  }, [ws.connected, sequenced]);
+
+  return ws;
+}
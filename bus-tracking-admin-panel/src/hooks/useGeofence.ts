@@ -0,0 +1,249 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useIndexedDB, IndexedDBOptions } from './useIndexedDB';
+import { Coordinates, haversineDistance, toLocalMeters } from './useGeolocation';
+
+export type GeofenceShape =
+  | { type: 'circle'; center: Coordinates; radius: number } // radius in metres
+  | { type: 'polygon'; coordinates: Coordinates[] };
+
+export interface GeofenceZone {
+  id: string;
+  name: string;
+  category?: 'depot' | 'terminal' | 'restricted' | string;
+  shape: GeofenceShape;
+  // Overrides the hook-wide dwell threshold for this zone
+  dwellTime?: number;
+  metadata?: Record<string, any>;
+}
+
+export type GeofenceEventType = 'enter' | 'exit' | 'dwell';
+
+export interface GeofenceEvent {
+  type: GeofenceEventType;
+  vehicleId: string;
+  zone: GeofenceZone;
+  position: Coordinates;
+  timestamp: number;
+  // Time spent inside the zone, for exit and dwell events
+  duration?: number;
+}
+
+interface ZoneMembership {
+  enteredAt: number;
+  dwellReported: boolean;
+}
+
+interface UseGeofenceOptions {
+  // Distance in metres a vehicle must clear the boundary by before it exits
+  hysteresis?: number;
+  // Time in milliseconds inside a zone before a dwell event fires
+  dwellTime?: number;
+  onEvent?: (event: GeofenceEvent) => void;
+  onError?: (error: Error) => void;
+}
+
+const ZONE_STORE = 'zones';
+
+export const GEOFENCE_DATABASE: IndexedDBOptions = {
+  databaseName: 'geofences',
+  version: 1,
+  stores: {
+    [ZONE_STORE]: {
+      keyPath: 'id',
+      indexes: [{ name: 'category', keyPath: 'category' }],
+    },
+  },
+};
+
+// Ray casting point-in-polygon test in latitude/longitude space
+export function isPointInPolygon(point: Coordinates, polygon: Coordinates[]): boolean {
+  let inside = false;
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const crosses = (a.latitude > point.latitude) !== (b.latitude > point.latitude);
+    if (
+      crosses &&
+      point.longitude <
+        ((b.longitude - a.longitude) * (point.latitude - a.latitude)) /
+          (b.latitude - a.latitude) +
+          a.longitude
+    ) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+// Shortest distance in metres from a point to the segment a-b
+export function distanceToSegment(
+  point: Coordinates,
+  a: Coordinates,
+  b: Coordinates
+): number {
+  const p = toLocalMeters(a, point);
+  const end = toLocalMeters(a, b);
+  const lengthSquared = end.x * end.x + end.y * end.y;
+  const t = lengthSquared === 0
+    ? 0
+    : Math.max(0, Math.min(1, (p.x * end.x + p.y * end.y) / lengthSquared));
+  return Math.hypot(p.x - t * end.x, p.y - t * end.y);
+}
+
+// Signed distance in metres to the zone boundary: negative inside, positive outside
+export function distanceToZone(point: Coordinates, shape: GeofenceShape): number {
+  if (shape.type === 'circle') {
+    return haversineDistance(shape.center, point, 'm') - shape.radius;
+  }
+
+  const { coordinates } = shape;
+  let edgeDistance = Infinity;
+  for (let i = 0; i < coordinates.length; i++) {
+    const next = coordinates[(i + 1) % coordinates.length];
+    edgeDistance = Math.min(edgeDistance, distanceToSegment(point, coordinates[i], next));
+  }
+
+  return isPointInPolygon(point, coordinates) ? -edgeDistance : edgeDistance;
+}
+
+export function useGeofence({
+  hysteresis = 25,
+  dwellTime = 5 * 60 * 1000,
+  onEvent,
+  onError,
+}: UseGeofenceOptions = {}) {
+  const { db, isLoading, getAll, put, remove } = useIndexedDB(GEOFENCE_DATABASE);
+  const [zones, setZones] = useState<GeofenceZone[]>([]);
+  const [error, setError] = useState<Error | null>(null);
+
+  // vehicleId -> zoneId -> membership
+  const membershipRef = useRef(new Map<string, Map<string, ZoneMembership>>());
+  const zonesRef = useRef(zones);
+  zonesRef.current = zones;
+
+  const handleError = useCallback((err: unknown, fallback: string) => {
+    const error = err instanceof Error ? err : new Error(fallback);
+    setError(error);
+    onError?.(error);
+  }, [onError]);
+
+  // Load persisted zones once the database is open
+  useEffect(() => {
+    if (!db) return;
+    getAll<GeofenceZone>(ZONE_STORE)
+      .then(setZones)
+      .catch(err => handleError(err, 'Failed to load geofences'));
+  }, [db, getAll, handleError]);
+
+  const saveZone = useCallback(async (zone: GeofenceZone) => {
+    if (zone.shape.type === 'polygon' && zone.shape.coordinates.length < 3) {
+      throw new Error(`Geofence "${zone.name}" needs at least three vertices`);
+    }
+    if (zone.shape.type === 'circle' && zone.shape.radius <= 0) {
+      throw new Error(`Geofence "${zone.name}" needs a positive radius`);
+    }
+
+    try {
+      await put<GeofenceZone>(ZONE_STORE, zone);
+      setZones(prev => [...prev.filter(z => z.id !== zone.id), zone]);
+    } catch (err) {
+      handleError(err, 'Failed to save geofence');
+      throw err;
+    }
+  }, [put, handleError]);
+
+  const removeZone = useCallback(async (zoneId: string) => {
+    try {
+      await remove(ZONE_STORE, zoneId);
+      setZones(prev => prev.filter(z => z.id !== zoneId));
+      membershipRef.current.forEach(memberships => memberships.delete(zoneId));
+    } catch (err) {
+      handleError(err, 'Failed to remove geofence');
+      throw err;
+    }
+  }, [remove, handleError]);
+
+  // Feed a vehicle fix through every zone and return the resulting events
+  const updatePosition = useCallback((
+    vehicleId: string,
+    position: Coordinates,
+    timestamp: number = Date.now()
+  ): GeofenceEvent[] => {
+    const events: GeofenceEvent[] = [];
+    let memberships = membershipRef.current.get(vehicleId);
+    if (!memberships) {
+      memberships = new Map();
+      membershipRef.current.set(vehicleId, memberships);
+    }
+
+    zonesRef.current.forEach((zone) => {
+      const distance = distanceToZone(position, zone.shape);
+      const membership = memberships!.get(zone.id);
+
+      if (!membership) {
+        if (distance <= 0) {
+          memberships!.set(zone.id, { enteredAt: timestamp, dwellReported: false });
+          events.push({ type: 'enter', vehicleId, zone, position, timestamp });
+        }
+        return;
+      }
+
+      // Only leave once clear of the boundary by the hysteresis margin
+      if (distance > hysteresis) {
+        memberships!.delete(zone.id);
+        events.push({
+          type: 'exit',
+          vehicleId,
+          zone,
+          position,
+          timestamp,
+          duration: timestamp - membership.enteredAt,
+        });
+        return;
+      }
+
+      const duration = timestamp - membership.enteredAt;
+      if (!membership.dwellReported && duration >= (zone.dwellTime ?? dwellTime)) {
+        membership.dwellReported = true;
+        events.push({ type: 'dwell', vehicleId, zone, position, timestamp, duration });
+      }
+    });
+
+    events.forEach(event => onEvent?.(event));
+    return events;
+  }, [hysteresis, dwellTime, onEvent]);
+
+  // Zones a vehicle is currently inside
+  const getVehicleZones = useCallback((vehicleId: string): GeofenceZone[] => {
+    const memberships = membershipRef.current.get(vehicleId);
+    if (!memberships) return [];
+    return zonesRef.current.filter(zone => memberships.has(zone.id));
+  }, []);
+
+  // Vehicles currently inside a zone
+  const getZoneVehicles = useCallback((zoneId: string): string[] => {
+    return Array.from(membershipRef.current.entries())
+      .filter(([, memberships]) => memberships.has(zoneId))
+      .map(([vehicleId]) => vehicleId);
+  }, []);
+
+  const resetVehicle = useCallback((vehicleId: string) => {
+    membershipRef.current.delete(vehicleId);
+  }, []);
+
+  return {
+    zones,
+    error,
+    isLoading,
+    saveZone,
+    removeZone,
+    updatePosition,
+    getVehicleZones,
+    getZoneVehicles,
+    resetVehicle,
+  };
+}
@@ -3,13 +3,19 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 
 interface GeolocationOptions extends Partial<PositionOptions> {
+  smoothing?: boolean | KalmanFilterOptions;
   onSuccess?: (position: GeolocationPosition) => void;
+  onFilteredPosition?: (position: FilteredPosition) => void;
   onError?: (error: GeolocationError) => void;
   onWatchError?: (error: GeolocationError) => void;
 }
 
 interface GeolocationState {
   position: GeolocationPosition | null;
+  // Unfiltered fix, identical to position
+  rawPosition: GeolocationPosition | null;
+  filteredPosition: FilteredPosition | null;
+  rejectedCount: number;
   error: GeolocationError | null;
   isLoading: boolean;
 }
@@ -21,11 +27,35 @@ interface GeolocationError extends Error {
   TIMEOUT: number;
 }
 
-interface Coordinates {
+export interface Coordinates {
   latitude: number;
   longitude: number;
 }
 
+export type DistanceUnit = 'km' | 'mi' | 'm';
+
+export interface KalmanFilterOptions {
+  // Expected acceleration noise in m/s²; higher values follow manoeuvres faster
+  processNoise?: number;
+  // Fixes implying a speed above this many m/s are dropped as outliers
+  maxSpeed?: number;
+  // Restart the filter after a gap this long, in milliseconds
+  resetAfter?: number;
+}
+
+export interface FilteredPosition extends Coordinates {
+  // Estimated 1-sigma position error in metres
+  accuracy: number;
+  speed: number; // metres per second
+  heading: number | null; // degrees from north
+  timestamp: number;
+}
+
+interface FilterResult {
+  accepted: boolean;
+  position: FilteredPosition | null;
+}
+
 interface UseGeolocationReturn extends GeolocationState {
   getCurrentPosition: () => Promise<GeolocationPosition>;
   startWatching: () => void;
@@ -39,34 +69,226 @@ const defaultOptions: PositionOptions = {
   timeout: 10000,
 };
 
+// Earth's radius in each supported unit
+const EARTH_RADIUS: Record<DistanceUnit, number> = {
+  km: 6371,
+  mi: 3959,
+  m: 6371000,
+};
+
+// Convert degrees to radians
+const toRad = (degrees: number): number => (degrees * Math.PI) / 180;
+
+// Convert radians to degrees
+const toDeg = (radians: number): number => (radians * 180) / Math.PI;
+
+// Calculate distance between two points using Haversine formula
+export function haversineDistance(
+  point1: Coordinates,
+  point2: Coordinates,
+  unit: DistanceUnit = 'km'
+): number {
+  const dLat = toRad(point2.latitude - point1.latitude);
+  const dLon = toRad(point2.longitude - point1.longitude);
+  const lat1 = toRad(point1.latitude);
+  const lat2 = toRad(point2.latitude);
+
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.sin(dLon / 2) * Math.sin(dLon / 2) * Math.cos(lat1) * Math.cos(lat2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return EARTH_RADIUS[unit] * c;
+}
+
+// Calculate initial bearing between two points in degrees from north
+export function initialBearing(point1: Coordinates, point2: Coordinates): number {
+  const dLon = toRad(point2.longitude - point1.longitude);
+  const lat1 = toRad(point1.latitude);
+  const lat2 = toRad(point2.latitude);
+  const y = Math.sin(dLon) * Math.cos(lat2);
+  const x =
+    Math.cos(lat1) * Math.sin(lat2) -
+    Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+  const bearing = toDeg(Math.atan2(y, x));
+  return (bearing + 360) % 360;
+}
+
+// Project a point onto a local east/north plane in metres around an origin
+export function toLocalMeters(
+  origin: Coordinates,
+  point: Coordinates
+): { x: number; y: number } {
+  const x = toRad(point.longitude - origin.longitude) *
+    Math.cos(toRad((origin.latitude + point.latitude) / 2)) * EARTH_RADIUS.m;
+  const y = toRad(point.latitude - origin.latitude) * EARTH_RADIUS.m;
+  return { x, y };
+}
+
+// Inverse of toLocalMeters
+export function fromLocalMeters(
+  origin: Coordinates,
+  { x, y }: { x: number; y: number }
+): Coordinates {
+  const latitude = origin.latitude + toDeg(y / EARTH_RADIUS.m);
+  const longitude = origin.longitude +
+    toDeg(x / (EARTH_RADIUS.m * Math.cos(toRad((origin.latitude + latitude) / 2))));
+  return { latitude, longitude };
+}
+
+// Constant-velocity Kalman filter on a local plane, one independent axis per direction
+export function createKalmanFilter({
+  processNoise = 3,
+  maxSpeed = 50,
+  resetAfter = 60000,
+}: KalmanFilterOptions = {}) {
+  let origin: Coordinates | null = null;
+  let lastFix: { point: Coordinates; accuracy: number; timestamp: number } | null = null;
+  let lastTime = 0;
+  // [position, velocity] and covariance [p00, p01, p11] for each axis
+  let axes: Array<{ x: number; v: number; p: [number, number, number] }> = [];
+
+  const reset = () => {
+    origin = null;
+    lastFix = null;
+    axes = [];
+  };
+
+  const update = (
+    point: Coordinates,
+    accuracy: number,
+    timestamp: number
+  ): FilterResult => {
+    const measurementVariance = Math.max(accuracy, 1) ** 2;
+
+    if (lastFix && timestamp - lastTime > resetAfter) {
+      reset();
+    }
+
+    // Drop fixes that would need an impossible speed, allowing for their error
+    if (lastFix) {
+      const elapsed = (timestamp - lastFix.timestamp) / 1000;
+      if (elapsed <= 0) {
+        return { accepted: false, position: null };
+      }
+      const distance = haversineDistance(lastFix.point, point, 'm');
+      const slack = accuracy + lastFix.accuracy;
+      if (Math.max(0, distance - slack) / elapsed > maxSpeed) {
+        return { accepted: false, position: null };
+      }
+    }
+
+    if (!origin) {
+      origin = point;
+      axes = [
+        { x: 0, v: 0, p: [measurementVariance, 0, maxSpeed ** 2] },
+        { x: 0, v: 0, p: [measurementVariance, 0, maxSpeed ** 2] },
+      ];
+    } else {
+      const dt = (timestamp - lastTime) / 1000;
+      const local = toLocalMeters(origin, point);
+      const q = processNoise ** 2;
+
+      [local.x, local.y].forEach((measurement, i) => {
+        const axis = axes[i];
+        // Predict
+        axis.x += axis.v * dt;
+        const [p00, p01, p11] = axis.p;
+        const predicted: [number, number, number] = [
+          p00 + 2 * dt * p01 + dt * dt * p11 + (q * dt ** 4) / 4,
+          p01 + dt * p11 + (q * dt ** 3) / 2,
+          p11 + q * dt * dt,
+        ];
+        // Update, weighting the fix by its reported accuracy
+        const innovation = measurement - axis.x;
+        const s = predicted[0] + measurementVariance;
+        const k0 = predicted[0] / s;
+        const k1 = predicted[1] / s;
+        axis.x += k0 * innovation;
+        axis.v += k1 * innovation;
+        axis.p = [
+          (1 - k0) * predicted[0],
+          (1 - k0) * predicted[1],
+          predicted[2] - k1 * predicted[1],
+        ];
+      });
+    }
+
+    lastFix = { point, accuracy, timestamp };
+    lastTime = timestamp;
+
+    const [east, north] = axes;
+    const speed = Math.hypot(east.v, north.v);
+    const filtered = fromLocalMeters(origin, { x: east.x, y: north.x });
+
+    return {
+      accepted: true,
+      position: {
+        ...filtered,
+        accuracy: Math.sqrt((east.p[0] + north.p[0]) / 2),
+        speed,
+        heading: speed > 0.5 ? (toDeg(Math.atan2(east.v, north.v)) + 360) % 360 : null,
+        timestamp,
+      },
+    };
+  };
+
+  return { update, reset };
+}
+
 export function useGeolocation({
   enableHighAccuracy = true,
   maximumAge = 0,
   timeout = 10000,
+  smoothing = false,
   onSuccess,
+  onFilteredPosition,
   onError,
   onWatchError,
 }: GeolocationOptions = {}): UseGeolocationReturn {
   const [state, setState] = useState<GeolocationState>({
     position: null,
+    rawPosition: null,
+    filteredPosition: null,
+    rejectedCount: 0,
     error: null,
     isLoading: true,
   });
   const [isWatching, setIsWatching] = useState(false);
   const watchIdRef = useRef<number | null>(null);
+  const filterRef = useRef<ReturnType<typeof createKalmanFilter> | null>(null);
+
+  // Recreate the filter when its configuration changes
+  const smoothingKey = JSON.stringify(smoothing);
+  useEffect(() => {
+    filterRef.current = smoothing
+      ? createKalmanFilter(smoothing === true ? {} : smoothing)
+      : null;
+  }, [smoothingKey]);
 
   // Check if geolocation is supported
   const isGeolocationSupported = typeof window !== 'undefined' && 'geolocation' in navigator;
 
   // Handle successful position update
   const handleSuccess = useCallback((position: GeolocationPosition) => {
-    setState({
+    const result = filterRef.current?.update(
+      position.coords,
+      position.coords.accuracy,
+      position.timestamp
+    );
+
+    setState(prev => ({
       position,
+      rawPosition: position,
+      filteredPosition: result?.position ?? prev.filteredPosition,
+      rejectedCount: result && !result.accepted ? prev.rejectedCount + 1 : prev.rejectedCount,
       error: null,
       isLoading: false,
-    });
+    }));
     onSuccess?.(position);
-  }, [onSuccess]);
+    if (result?.position) {
+      onFilteredPosition?.(result.position);
+    }
+  }, [onSuccess, onFilteredPosition]);
 
   // Handle geolocation errors
   const handleError = useCallback((error: GeolocationError, isWatchError = false) => {
@@ -158,7 +380,7 @@ export function useGeolocation({
 
 // Helper hook for distance calculations
 interface UseDistanceOptions {
-  unit?: 'km' | 'mi';
+  unit?: DistanceUnit;
 }
 
 export function useDistance({ unit = 'km' }: UseDistanceOptions = {}) {
@@ -167,17 +389,7 @@ export function useDistance({ unit = 'km' }: UseDistanceOptions = {}) {
     point1: Coordinates,
     point2: Coordinates
   ): number => {
-    const R = unit === 'km' ? 6371 : 3959; // Earth's radius in km or miles
-    const dLat = toRad(point2.latitude - point1.latitude);
-    const dLon = toRad(point2.longitude - point1.longitude);
-    const lat1 = toRad(point1.latitude);
-    const lat2 = toRad(point2.latitude);
-
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.sin(dLon / 2) * Math.sin(dLon / 2) * Math.cos(lat1) * Math.cos(lat2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
+    return haversineDistance(point1, point2, unit);
   }, [unit]);
 
   // Calculate bearing between two points
@@ -185,15 +397,7 @@ export function useDistance({ unit = 'km' }: UseDistanceOptions = {}) {
     point1: Coordinates,
     point2: Coordinates
   ): number => {
-    const dLon = toRad(point2.longitude - point1.longitude);
-    const lat1 = toRad(point1.latitude);
-    const lat2 = toRad(point2.latitude);
-    const y = Math.sin(dLon) * Math.cos(lat2);
-    const x =
-      Math.cos(lat1) * Math.sin(lat2) -
-      Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
-    const bearing = toDeg(Math.atan2(y, x));
-    return (bearing + 360) % 360;
+    return initialBearing(point1, point2);
   }, []);
 
   // Check if point is within radius
@@ -206,12 +410,6 @@ export function useDistance({ unit = 'km' }: UseDistanceOptions = {}) {
     return distance <= radius;
   }, [calculateDistance]);
 
-  // Convert degrees to radians
-  const toRad = (degrees: number): number => (degrees * Math.PI) / 180;
-
-  // Convert radians to degrees
-  const toDeg = (radians: number): number => (radians * 180) / Math.PI;
-
   return {
     calculateDistance,
     calculateBearing,
@@ -224,12 +422,12 @@ interface UseLocationHistoryOptions {
   maxEntries?: number;
 }
 
-export function useLocationHistory({
+export function useLocationHistory<T = GeolocationPosition>({
   maxEntries = 10,
 }: UseLocationHistoryOptions = {}) {
-  const [history, setHistory] = useState<GeolocationPosition[]>([]);
+  const [history, setHistory] = useState<T[]>([]);
 
-  const addLocation = useCallback((position: GeolocationPosition) => {
+  const addLocation = useCallback((position: T) => {
     setHistory(prev => {
       const newHistory = [position, ...prev];
       return newHistory.slice(0, maxEntries);
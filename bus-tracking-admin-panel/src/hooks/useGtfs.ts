@@ -0,0 +1,639 @@
+'use client';
+
+import { useCallback } from 'react';
+import { useIndexedDB, IndexedDBOptions } from './useIndexedDB';
+import { useLoadingStateWithProgress } from './useLoadingState';
+
+export interface GtfsAgency {
+  agencyId: string;
+  name: string;
+  url: string;
+  timezone: string;
+  lang?: string;
+  phone?: string;
+}
+
+export interface GtfsRoute {
+  routeId: string;
+  agencyId?: string;
+  shortName?: string;
+  longName?: string;
+  type: number;
+  color?: string;
+  textColor?: string;
+}
+
+export interface GtfsTrip {
+  tripId: string;
+  routeId: string;
+  serviceId: string;
+  headsign?: string;
+  directionId?: number;
+  blockId?: string;
+  shapeId?: string;
+}
+
+export interface GtfsStop {
+  stopId: string;
+  code?: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  locationType?: number;
+  parentStation?: string;
+}
+
+export interface GtfsStopTime {
+  tripId: string;
+  stopSequence: number;
+  stopId: string;
+  arrivalTime: string;
+  departureTime: string;
+  // Seconds since the start of the service day (may exceed 24h)
+  arrivalSeconds: number;
+  departureSeconds: number;
+  shapeDistTraveled?: number;
+  timepoint?: number;
+}
+
+export interface GtfsShapePoint {
+  shapeId: string;
+  sequence: number;
+  latitude: number;
+  longitude: number;
+  distTraveled?: number;
+}
+
+export interface GtfsCalendar {
+  serviceId: string;
+  monday: boolean;
+  tuesday: boolean;
+  wednesday: boolean;
+  thursday: boolean;
+  friday: boolean;
+  saturday: boolean;
+  sunday: boolean;
+  startDate: string;
+  endDate: string;
+}
+
+export interface GtfsCalendarDate {
+  serviceId: string;
+  date: string;
+  exceptionType: 1 | 2;
+}
+
+export interface GtfsFeed {
+  agency: GtfsAgency[];
+  routes: GtfsRoute[];
+  trips: GtfsTrip[];
+  stops: GtfsStop[];
+  stopTimes: GtfsStopTime[];
+  shapes: GtfsShapePoint[];
+  calendar: GtfsCalendar[];
+  calendarDates: GtfsCalendarDate[];
+}
+
+export interface GtfsValidationIssue {
+  file: string;
+  row: number;
+  field: string;
+  value: string;
+  message: string;
+}
+
+interface GtfsImportError extends Error {
+  type: 'archive' | 'parse' | 'validation' | 'storage';
+  issues: GtfsValidationIssue[];
+}
+
+interface GtfsImportOptions {
+  // Drop rows with broken references instead of failing the import
+  dropInvalidRows?: boolean;
+  onIssues?: (issues: GtfsValidationIssue[]) => void;
+}
+
+interface GtfsImportResult {
+  counts: Record<keyof GtfsFeed, number>;
+  issues: GtfsValidationIssue[];
+  importedAt: number;
+}
+
+export const GTFS_DATABASE: IndexedDBOptions = {
+  databaseName: 'gtfs',
+  version: 1,
+  stores: {
+    agency: { keyPath: 'agencyId' },
+    routes: {
+      keyPath: 'routeId',
+      indexes: [{ name: 'agencyId', keyPath: 'agencyId' }],
+    },
+    trips: {
+      keyPath: 'tripId',
+      indexes: [
+        { name: 'routeId', keyPath: 'routeId' },
+        { name: 'serviceId', keyPath: 'serviceId' },
+        { name: 'shapeId', keyPath: 'shapeId' },
+      ],
+    },
+    stops: { keyPath: 'stopId' },
+    stopTimes: {
+      keyPath: ['tripId', 'stopSequence'],
+      indexes: [
+        { name: 'tripId', keyPath: 'tripId' },
+        { name: 'stopId', keyPath: 'stopId' },
+      ],
+    },
+    shapes: {
+      keyPath: ['shapeId', 'sequence'],
+      indexes: [{ name: 'shapeId', keyPath: 'shapeId' }],
+    },
+    calendar: { keyPath: 'serviceId' },
+    calendarDates: {
+      keyPath: ['serviceId', 'date'],
+      indexes: [
+        { name: 'serviceId', keyPath: 'serviceId' },
+        { name: 'date', keyPath: 'date' },
+      ],
+    },
+  },
+};
+
+const GTFS_FILES: Record<keyof GtfsFeed, string> = {
+  agency: 'agency.txt',
+  routes: 'routes.txt',
+  trips: 'trips.txt',
+  stops: 'stops.txt',
+  stopTimes: 'stop_times.txt',
+  shapes: 'shapes.txt',
+  calendar: 'calendar.txt',
+  calendarDates: 'calendar_dates.txt',
+};
+
+const REQUIRED_FILES: Array<keyof GtfsFeed> = ['agency', 'routes', 'trips', 'stops', 'stopTimes'];
+
+// Fields making up each store's key, with their GTFS column names
+const KEY_FIELDS: { [K in keyof GtfsFeed]: Partial<Record<keyof GtfsFeed[K][number], string>> } = {
+  agency: { agencyId: 'agency_id' },
+  routes: { routeId: 'route_id' },
+  trips: { tripId: 'trip_id' },
+  stops: { stopId: 'stop_id' },
+  stopTimes: { tripId: 'trip_id', stopSequence: 'stop_sequence' },
+  shapes: { shapeId: 'shape_id', sequence: 'shape_pt_sequence' },
+  calendar: { serviceId: 'service_id' },
+  calendarDates: { serviceId: 'service_id', date: 'date' },
+};
+
+// IndexedDB rejects empty, missing and NaN keys, aborting the whole import
+const isValidKey = (value: unknown) =>
+  typeof value === 'number' ? !Number.isNaN(value) : typeof value === 'string' && value !== '';
+
+const fieldValue = (row: object, field: string) => (row as Record<string, unknown>)[field];
+
+const hasValidKey = (storeName: keyof GtfsFeed, row: object) =>
+  Object.keys(KEY_FIELDS[storeName]).every(field => isValidKey(fieldValue(row, field)));
+
+const createGtfsError = (
+  message: string,
+  type: GtfsImportError['type'],
+  issues: GtfsValidationIssue[] = []
+): GtfsImportError => {
+  const error = new Error(message) as GtfsImportError;
+  error.type = type;
+  error.issues = issues;
+  return error;
+};
+
+// Convert a GTFS "HH:MM:SS" time to seconds since the start of the service day
+export function parseGtfsTime(time: string): number {
+  const [hours, minutes, seconds] = time.trim().split(':').map(Number);
+  if ([hours, minutes, seconds].some(part => Number.isNaN(part))) {
+    return NaN;
+  }
+  return hours * 3600 + minutes * 60 + seconds;
+}
+
+// Parse CSV text (RFC 4180 quoting) into header-keyed records
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header = [], ...records] = rows.filter(r => r.some(value => value.trim() !== ''));
+  const columns = header.map(column => column.trim());
+
+  return records.map(values =>
+    columns.reduce<Record<string, string>>((record, column, index) => {
+      record[column] = (values[index] ?? '').trim();
+      return record;
+    }, {})
+  );
+}
+
+// Read the entries of a zip archive, inflating with the native DecompressionStream
+async function readZipEntries(buffer: ArrayBuffer): Promise<Map<string, string>> {
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder('utf-8');
+  const entries = new Map<string, string>();
+
+  // Locate the end of central directory record
+  let eocd = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw createGtfsError('Not a valid zip archive', 'archive');
+  }
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) {
+      throw createGtfsError('Corrupt zip central directory', 'archive');
+    }
+
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    // Feeds are sometimes zipped with an enclosing folder
+    const fileName = name.split('/').pop() || name;
+    if (!Object.values(GTFS_FILES).includes(fileName)) continue;
+
+    const localNameLength = view.getUint16(localOffset + 26, true);
+    const localExtraLength = view.getUint16(localOffset + 28, true);
+    const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+    const data = new Uint8Array(buffer, dataStart, compressedSize);
+
+    if (method === 0) {
+      entries.set(fileName, decoder.decode(data));
+    } else if (method === 8) {
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      entries.set(fileName, await new Response(stream).text());
+    } else {
+      throw createGtfsError(`Unsupported compression method ${method} for ${fileName}`, 'archive');
+    }
+  }
+
+  return entries;
+}
+
+const optional = (value: string | undefined) => (value ? value : undefined);
+const optionalNumber = (value: string | undefined) => (value ? Number(value) : undefined);
+
+// Map raw CSV records onto the typed feed, collecting format issues
+function parseFeed(
+  files: Map<string, string>,
+  issues: GtfsValidationIssue[]
+): GtfsFeed {
+  const read = (key: keyof GtfsFeed) => {
+    const text = files.get(GTFS_FILES[key]);
+    return text ? parseCsv(text) : [];
+  };
+
+  const requireNumber = (file: string, row: number, field: string, value: string) => {
+    const parsed = Number(value);
+    if (value === '' || Number.isNaN(parsed)) {
+      issues.push({ file, row, field, value, message: 'Expected a number' });
+    }
+    return parsed;
+  };
+
+  const agency = read('agency').map((r): GtfsAgency => ({
+    agencyId: r.agency_id || r.agency_name,
+    name: r.agency_name,
+    url: r.agency_url,
+    timezone: r.agency_timezone,
+    lang: optional(r.agency_lang),
+    phone: optional(r.agency_phone),
+  }));
+
+  const routes = read('routes').map((r, i): GtfsRoute => ({
+    routeId: r.route_id,
+    agencyId: optional(r.agency_id) ?? agency[0]?.agencyId,
+    shortName: optional(r.route_short_name),
+    longName: optional(r.route_long_name),
+    type: requireNumber(GTFS_FILES.routes, i + 2, 'route_type', r.route_type),
+    color: optional(r.route_color),
+    textColor: optional(r.route_text_color),
+  }));
+
+  const trips = read('trips').map((r): GtfsTrip => ({
+    tripId: r.trip_id,
+    routeId: r.route_id,
+    serviceId: r.service_id,
+    headsign: optional(r.trip_headsign),
+    directionId: optionalNumber(r.direction_id),
+    blockId: optional(r.block_id),
+    shapeId: optional(r.shape_id),
+  }));
+
+  const stops = read('stops').map((r, i): GtfsStop => ({
+    stopId: r.stop_id,
+    code: optional(r.stop_code),
+    name: r.stop_name,
+    latitude: requireNumber(GTFS_FILES.stops, i + 2, 'stop_lat', r.stop_lat),
+    longitude: requireNumber(GTFS_FILES.stops, i + 2, 'stop_lon', r.stop_lon),
+    locationType: optionalNumber(r.location_type),
+    parentStation: optional(r.parent_station),
+  }));
+
+  const stopTimes = read('stopTimes').map((r, i): GtfsStopTime => {
+    // Untimed stops inherit whichever of the two times is present
+    const arrivalTime = r.arrival_time || r.departure_time;
+    const departureTime = r.departure_time || r.arrival_time;
+    return {
+      tripId: r.trip_id,
+      stopSequence: requireNumber(GTFS_FILES.stopTimes, i + 2, 'stop_sequence', r.stop_sequence),
+      stopId: r.stop_id,
+      arrivalTime,
+      departureTime,
+      arrivalSeconds: arrivalTime ? parseGtfsTime(arrivalTime) : NaN,
+      departureSeconds: departureTime ? parseGtfsTime(departureTime) : NaN,
+      shapeDistTraveled: optionalNumber(r.shape_dist_traveled),
+      timepoint: optionalNumber(r.timepoint),
+    };
+  });
+
+  const shapes = read('shapes').map((r, i): GtfsShapePoint => ({
+    shapeId: r.shape_id,
+    sequence: requireNumber(GTFS_FILES.shapes, i + 2, 'shape_pt_sequence', r.shape_pt_sequence),
+    latitude: requireNumber(GTFS_FILES.shapes, i + 2, 'shape_pt_lat', r.shape_pt_lat),
+    longitude: requireNumber(GTFS_FILES.shapes, i + 2, 'shape_pt_lon', r.shape_pt_lon),
+    distTraveled: optionalNumber(r.shape_dist_traveled),
+  }));
+
+  const calendar = read('calendar').map((r): GtfsCalendar => ({
+    serviceId: r.service_id,
+    monday: r.monday === '1',
+    tuesday: r.tuesday === '1',
+    wednesday: r.wednesday === '1',
+    thursday: r.thursday === '1',
+    friday: r.friday === '1',
+    saturday: r.saturday === '1',
+    sunday: r.sunday === '1',
+    startDate: r.start_date,
+    endDate: r.end_date,
+  }));
+
+  const calendarDates = read('calendarDates').map((r): GtfsCalendarDate => ({
+    serviceId: r.service_id,
+    date: r.date,
+    exceptionType: r.exception_type === '2' ? 2 : 1,
+  }));
+
+  return { agency, routes, trips, stops, stopTimes, shapes, calendar, calendarDates };
+}
+
+// Check key fields, and trip -> route, stop_time -> trip/stop and trip -> shape/service references
+export function validateGtfsFeed(feed: GtfsFeed): GtfsValidationIssue[] {
+  const issues: GtfsValidationIssue[] = [];
+
+  // Non-numeric numbers are already reported while parsing
+  (Object.keys(KEY_FIELDS) as Array<keyof GtfsFeed>).forEach((storeName) => {
+    const fields = Object.entries(KEY_FIELDS[storeName]);
+    feed[storeName].forEach((row: object, i) => {
+      fields.forEach(([field, column = field]) => {
+        const value = fieldValue(row, field);
+        if (value === undefined || value === '') {
+          issues.push({ file: GTFS_FILES[storeName], row: i + 2, field: column, value: '', message: 'Missing key' });
+        }
+      });
+    });
+  });
+
+  const routeIds = new Set(feed.routes.map(route => route.routeId));
+  const tripIds = new Set(feed.trips.map(trip => trip.tripId));
+  const stopIds = new Set(feed.stops.map(stop => stop.stopId));
+  const shapeIds = new Set(feed.shapes.map(point => point.shapeId));
+  const serviceIds = new Set([
+    ...feed.calendar.map(service => service.serviceId),
+    ...feed.calendarDates.map(exception => exception.serviceId),
+  ]);
+
+  feed.trips.forEach((trip, i) => {
+    const row = i + 2;
+    if (!routeIds.has(trip.routeId)) {
+      issues.push({ file: GTFS_FILES.trips, row, field: 'route_id', value: trip.routeId, message: 'Unknown route' });
+    }
+    if (!serviceIds.has(trip.serviceId)) {
+      issues.push({ file: GTFS_FILES.trips, row, field: 'service_id', value: trip.serviceId, message: 'Unknown service' });
+    }
+    if (trip.shapeId && shapeIds.size > 0 && !shapeIds.has(trip.shapeId)) {
+      issues.push({ file: GTFS_FILES.trips, row, field: 'shape_id', value: trip.shapeId, message: 'Unknown shape' });
+    }
+  });
+
+  feed.stopTimes.forEach((stopTime, i) => {
+    const row = i + 2;
+    if (!tripIds.has(stopTime.tripId)) {
+      issues.push({ file: GTFS_FILES.stopTimes, row, field: 'trip_id', value: stopTime.tripId, message: 'Unknown trip' });
+    }
+    if (!stopIds.has(stopTime.stopId)) {
+      issues.push({ file: GTFS_FILES.stopTimes, row, field: 'stop_id', value: stopTime.stopId, message: 'Unknown stop' });
+    }
+    if (Number.isNaN(stopTime.arrivalSeconds)) {
+      issues.push({ file: GTFS_FILES.stopTimes, row, field: 'arrival_time', value: stopTime.arrivalTime, message: 'Invalid time' });
+    }
+  });
+
+  return issues;
+}
+
+// Remove rows without a usable key and rows whose references could not be resolved
+function dropInvalidRows(input: GtfsFeed): GtfsFeed {
+  const feed: GtfsFeed = {
+    agency: input.agency.filter(row => hasValidKey('agency', row)),
+    routes: input.routes.filter(row => hasValidKey('routes', row)),
+    trips: input.trips.filter(row => hasValidKey('trips', row)),
+    stops: input.stops.filter(row => hasValidKey('stops', row)),
+    stopTimes: input.stopTimes.filter(row => hasValidKey('stopTimes', row)),
+    shapes: input.shapes.filter(row => hasValidKey('shapes', row)),
+    calendar: input.calendar.filter(row => hasValidKey('calendar', row)),
+    calendarDates: input.calendarDates.filter(row => hasValidKey('calendarDates', row)),
+  };
+
+  const routeIds = new Set(feed.routes.map(route => route.routeId));
+  const stopIds = new Set(feed.stops.map(stop => stop.stopId));
+  const shapeIds = new Set(feed.shapes.map(point => point.shapeId));
+  const serviceIds = new Set([
+    ...feed.calendar.map(service => service.serviceId),
+    ...feed.calendarDates.map(exception => exception.serviceId),
+  ]);
+  // Matches validateGtfsFeed: shape references are only checked when the feed has shapes
+  const trips = feed.trips.filter(trip =>
+    routeIds.has(trip.routeId) &&
+    serviceIds.has(trip.serviceId) &&
+    (!trip.shapeId || shapeIds.size === 0 || shapeIds.has(trip.shapeId))
+  );
+  const tripIds = new Set(trips.map(trip => trip.tripId));
+
+  return {
+    ...feed,
+    trips,
+    stopTimes: feed.stopTimes.filter(stopTime =>
+      tripIds.has(stopTime.tripId) &&
+      stopIds.has(stopTime.stopId) &&
+      !Number.isNaN(stopTime.arrivalSeconds)
+    ),
+  };
+}
+
+export function useGtfsImport(options: GtfsImportOptions = {}) {
+  const { db, isLoading: isDatabaseLoading, replaceAll } = useIndexedDB(GTFS_DATABASE);
+  const { executeWithProgress, ...state } = useLoadingStateWithProgress();
+
+  const importFeed = useCallback((
+    source: Blob | ArrayBuffer,
+    localOptions: GtfsImportOptions = {}
+  ): Promise<GtfsImportResult> => {
+    const { dropInvalidRows: shouldDrop = false, onIssues } = { ...options, ...localOptions };
+
+    return executeWithProgress(async (onProgress) => {
+      if (!db) {
+        throw createGtfsError('Database not initialized', 'storage');
+      }
+
+      onProgress(2);
+      const buffer = source instanceof ArrayBuffer ? source : await source.arrayBuffer();
+      const files = await readZipEntries(buffer);
+
+      const missing = REQUIRED_FILES.filter(key => !files.has(GTFS_FILES[key]));
+      if (missing.length > 0) {
+        throw createGtfsError(
+          `Feed is missing ${missing.map(key => GTFS_FILES[key]).join(', ')}`,
+          'archive'
+        );
+      }
+      onProgress(15);
+
+      const parseIssues: GtfsValidationIssue[] = [];
+      let feed = parseFeed(files, parseIssues);
+      onProgress(35);
+
+      const issues = [...parseIssues, ...validateGtfsFeed(feed)];
+      onIssues?.(issues);
+
+      if (issues.length > 0) {
+        if (!shouldDrop) {
+          throw createGtfsError(
+            `Feed failed validation with ${issues.length} issue(s)`,
+            'validation',
+            issues
+          );
+        }
+        feed = dropInvalidRows(feed);
+      }
+      onProgress(45);
+
+      // Replace the previous feed in one transaction; a failed write keeps it intact
+      try {
+        await replaceAll({ ...feed });
+      } catch (err) {
+        throw createGtfsError(
+          `Failed to store the feed: ${err instanceof Error ? err.message : String(err)}`,
+          'storage'
+        );
+      }
+      onProgress(100);
+
+      const counts: GtfsImportResult['counts'] = {
+        agency: feed.agency.length,
+        routes: feed.routes.length,
+        trips: feed.trips.length,
+        stops: feed.stops.length,
+        stopTimes: feed.stopTimes.length,
+        shapes: feed.shapes.length,
+        calendar: feed.calendar.length,
+        calendarDates: feed.calendarDates.length,
+      };
+      return { counts, issues, importedAt: Date.now() };
+    });
+  }, [db, options, executeWithProgress, replaceAll]);
+
+  return {
+    ...state,
+    isReady: !isDatabaseLoading && !!db,
+    importFeed,
+  };
+}
+
+// Helper hook for reading the imported schedule
+export function useGtfsSchedule() {
+  const { db, isLoading, error, get, getAll, query } = useIndexedDB(GTFS_DATABASE);
+
+  const getAgencies = useCallback(() => getAll<GtfsAgency>('agency'), [getAll]);
+
+  const getRoutes = useCallback(() => getAll<GtfsRoute>('routes'), [getAll]);
+
+  const getStop = useCallback((stopId: string) => get<GtfsStop>('stops', stopId), [get]);
+
+  const getTripsForRoute = useCallback((routeId: string) => {
+    return query<GtfsTrip>('trips', { index: 'routeId', query: routeId });
+  }, [query]);
+
+  const getStopTimesForTrip = useCallback(async (tripId: string) => {
+    const stopTimes = await query<GtfsStopTime>('stopTimes', { index: 'tripId', query: tripId });
+    return stopTimes.sort((a, b) => a.stopSequence - b.stopSequence);
+  }, [query]);
+
+  const getShape = useCallback(async (shapeId: string) => {
+    const points = await query<GtfsShapePoint>('shapes', { index: 'shapeId', query: shapeId });
+    return points.sort((a, b) => a.sequence - b.sequence);
+  }, [query]);
+
+  return {
+    isReady: !isLoading && !!db,
+    error,
+    getAgencies,
+    getRoutes,
+    getStop,
+    getTripsForRoute,
+    getStopTimesForTrip,
+    getShape,
+  };
+}
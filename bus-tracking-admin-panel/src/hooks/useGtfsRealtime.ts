@@ -0,0 +1,443 @@
+'use client';
+
+import { useMemo } from 'react';
+import {
+  useWebSocketSubscription,
+  WebSocketOptions,
+  SubscriptionEnvelope,
+} from './useWebSocket';
+
+export type ScheduleRelationship =
+  | 'SCHEDULED'
+  | 'ADDED'
+  | 'UNSCHEDULED'
+  | 'CANCELED'
+  | 'SKIPPED'
+  | 'NO_DATA';
+
+export type VehicleStopStatus = 'INCOMING_AT' | 'STOPPED_AT' | 'IN_TRANSIT_TO';
+
+export type OccupancyStatus =
+  | 'EMPTY'
+  | 'MANY_SEATS_AVAILABLE'
+  | 'FEW_SEATS_AVAILABLE'
+  | 'STANDING_ROOM_ONLY'
+  | 'CRUSHED_STANDING_ROOM_ONLY'
+  | 'FULL'
+  | 'NOT_ACCEPTING_PASSENGERS'
+  | 'NO_DATA_AVAILABLE'
+  | 'NOT_BOARDABLE';
+
+export interface TripDescriptor {
+  tripId?: string;
+  routeId?: string;
+  directionId?: number;
+  startTime?: string;
+  startDate?: string;
+  scheduleRelationship?: ScheduleRelationship;
+}
+
+export interface VehicleDescriptor {
+  id?: string;
+  label?: string;
+  licensePlate?: string;
+}
+
+export interface VehiclePosition {
+  entityId: string;
+  trip?: TripDescriptor;
+  vehicle?: VehicleDescriptor;
+  position?: {
+    latitude: number;
+    longitude: number;
+    bearing?: number;
+    odometer?: number;
+    speed?: number; // metres per second
+  };
+  currentStopSequence?: number;
+  stopId?: string;
+  currentStatus?: VehicleStopStatus;
+  occupancyStatus?: OccupancyStatus;
+  occupancyPercentage?: number;
+  timestamp?: number; // milliseconds since epoch
+}
+
+export interface StopTimeEvent {
+  delay?: number; // seconds
+  time?: number; // milliseconds since epoch
+  uncertainty?: number;
+}
+
+export interface StopTimeUpdate {
+  stopSequence?: number;
+  stopId?: string;
+  arrival?: StopTimeEvent;
+  departure?: StopTimeEvent;
+  scheduleRelationship?: ScheduleRelationship;
+}
+
+export interface TripUpdate {
+  entityId: string;
+  trip: TripDescriptor;
+  vehicle?: VehicleDescriptor;
+  stopTimeUpdates: StopTimeUpdate[];
+  delay?: number;
+  timestamp?: number;
+}
+
+export interface FeedMessage {
+  header: {
+    gtfsRealtimeVersion: string;
+    incrementality: 'FULL_DATASET' | 'DIFFERENTIAL';
+    timestamp?: number;
+  };
+  vehiclePositions: VehiclePosition[];
+  tripUpdates: TripUpdate[];
+  deletedEntityIds: string[];
+}
+
+const TRIP_SCHEDULE_RELATIONSHIPS: ScheduleRelationship[] = [
+  'SCHEDULED', 'ADDED', 'UNSCHEDULED', 'CANCELED',
+];
+const STOP_SCHEDULE_RELATIONSHIPS: ScheduleRelationship[] = [
+  'SCHEDULED', 'SKIPPED', 'NO_DATA',
+];
+const VEHICLE_STOP_STATUSES: VehicleStopStatus[] = [
+  'INCOMING_AT', 'STOPPED_AT', 'IN_TRANSIT_TO',
+];
+export const OCCUPANCY_STATUSES: OccupancyStatus[] = [
+  'EMPTY',
+  'MANY_SEATS_AVAILABLE',
+  'FEW_SEATS_AVAILABLE',
+  'STANDING_ROOM_ONLY',
+  'CRUSHED_STANDING_ROOM_ONLY',
+  'FULL',
+  'NOT_ACCEPTING_PASSENGERS',
+  'NO_DATA_AVAILABLE',
+  'NOT_BOARDABLE',
+];
+
+// Derive an occupancy band from a passenger load. Seats fill first, then standing
+// room; past 80% of standing room the vehicle counts as crushed.
+export function occupancyStatusForLoad(
+  load: number,
+  capacity: { seated: number; total: number }
+): OccupancyStatus {
+  const standing = Math.max(0, capacity.total - capacity.seated);
+  if (capacity.total <= 0) return 'NO_DATA_AVAILABLE';
+  if (load <= 0) return 'EMPTY';
+  if (load >= capacity.total) return 'FULL';
+  if (load < capacity.seated * 0.5) return 'MANY_SEATS_AVAILABLE';
+  if (load < capacity.seated) return 'FEW_SEATS_AVAILABLE';
+  if (load - capacity.seated < standing * 0.8) return 'STANDING_ROOM_ONLY';
+  return 'CRUSHED_STANDING_ROOM_ONLY';
+}
+
+// Minimal protobuf wire-format reader covering what gtfs-realtime.proto uses
+interface ProtoReader {
+  pos: number;
+  end: number;
+  view: DataView;
+  bytes: Uint8Array;
+}
+
+const textDecoder = typeof TextDecoder !== 'undefined' ? new TextDecoder() : null;
+
+// Returns the varint split into its low and high 32-bit halves
+function readVarint(reader: ProtoReader): [number, number] {
+  let lo = 0;
+  let hi = 0;
+  let shift = 0;
+
+  while (reader.pos < reader.end) {
+    const byte = reader.bytes[reader.pos++];
+    if (shift < 28) {
+      lo |= (byte & 0x7f) << shift;
+    } else if (shift === 28) {
+      lo |= (byte & 0x0f) << 28;
+      hi |= (byte & 0x7f) >> 4;
+    } else {
+      hi |= (byte & 0x7f) << (shift - 32);
+    }
+    if ((byte & 0x80) === 0) {
+      return [lo >>> 0, hi >>> 0];
+    }
+    shift += 7;
+  }
+
+  throw new Error('Truncated varint');
+}
+
+const readUint = (reader: ProtoReader) => {
+  const [lo, hi] = readVarint(reader);
+  return hi * 0x100000000 + lo;
+};
+
+const readInt32 = (reader: ProtoReader) => readVarint(reader)[0] | 0;
+
+const readInt64 = (reader: ProtoReader) => {
+  const [lo, hi] = readVarint(reader);
+  return (hi | 0) * 0x100000000 + lo;
+};
+
+function readBytes(reader: ProtoReader): ProtoReader {
+  const length = readUint(reader);
+  const start = reader.pos;
+  reader.pos += length;
+  if (reader.pos > reader.end) {
+    throw new Error('Truncated length-delimited field');
+  }
+  return { ...reader, pos: start, end: start + length };
+}
+
+const readString = (reader: ProtoReader) => {
+  const field = readBytes(reader);
+  return textDecoder!.decode(field.bytes.subarray(field.pos, field.end));
+};
+
+const readFloat = (reader: ProtoReader) => {
+  const value = reader.view.getFloat32(reader.pos, true);
+  reader.pos += 4;
+  return value;
+};
+
+const readDouble = (reader: ProtoReader) => {
+  const value = reader.view.getFloat64(reader.pos, true);
+  reader.pos += 8;
+  return value;
+};
+
+function skipField(reader: ProtoReader, wireType: number) {
+  switch (wireType) {
+    case 0:
+      readVarint(reader);
+      break;
+    case 1:
+      reader.pos += 8;
+      break;
+    case 2:
+      readBytes(reader);
+      break;
+    case 5:
+      reader.pos += 4;
+      break;
+    default:
+      throw new Error(`Unsupported wire type ${wireType}`);
+  }
+}
+
+// Iterate over the fields of a message, skipping anything the callback ignores
+function readMessage(reader: ProtoReader, onField: (field: number, wireType: number) => boolean) {
+  while (reader.pos < reader.end) {
+    const tag = readUint(reader);
+    const field = Math.floor(tag / 8);
+    const wireType = tag & 7;
+    if (!onField(field, wireType)) {
+      skipField(reader, wireType);
+    }
+  }
+}
+
+function readTripDescriptor(reader: ProtoReader): TripDescriptor {
+  const trip: TripDescriptor = {};
+  readMessage(reader, (field) => {
+    switch (field) {
+      case 1: trip.tripId = readString(reader); return true;
+      case 2: trip.startTime = readString(reader); return true;
+      case 3: trip.startDate = readString(reader); return true;
+      case 4: trip.scheduleRelationship = TRIP_SCHEDULE_RELATIONSHIPS[readInt32(reader)]; return true;
+      case 5: trip.routeId = readString(reader); return true;
+      case 6: trip.directionId = readUint(reader); return true;
+      default: return false;
+    }
+  });
+  return trip;
+}
+
+function readVehicleDescriptor(reader: ProtoReader): VehicleDescriptor {
+  const vehicle: VehicleDescriptor = {};
+  readMessage(reader, (field) => {
+    switch (field) {
+      case 1: vehicle.id = readString(reader); return true;
+      case 2: vehicle.label = readString(reader); return true;
+      case 3: vehicle.licensePlate = readString(reader); return true;
+      default: return false;
+    }
+  });
+  return vehicle;
+}
+
+function readPosition(reader: ProtoReader): NonNullable<VehiclePosition['position']> {
+  const position: NonNullable<VehiclePosition['position']> = { latitude: 0, longitude: 0 };
+  readMessage(reader, (field, wireType) => {
+    switch (field) {
+      case 1: position.latitude = readFloat(reader); return true;
+      case 2: position.longitude = readFloat(reader); return true;
+      case 3: position.bearing = readFloat(reader); return true;
+      case 4: position.odometer = wireType === 1 ? readDouble(reader) : readFloat(reader); return true;
+      case 5: position.speed = readFloat(reader); return true;
+      default: return false;
+    }
+  });
+  return position;
+}
+
+function readVehiclePosition(reader: ProtoReader, entityId: string): VehiclePosition {
+  const vehicle: VehiclePosition = { entityId };
+  readMessage(reader, (field) => {
+    switch (field) {
+      case 1: vehicle.trip = readTripDescriptor(readBytes(reader)); return true;
+      case 2: vehicle.position = readPosition(readBytes(reader)); return true;
+      case 3: vehicle.currentStopSequence = readUint(reader); return true;
+      case 4: vehicle.currentStatus = VEHICLE_STOP_STATUSES[readInt32(reader)]; return true;
+      case 5: vehicle.timestamp = readUint(reader) * 1000; return true;
+      case 7: vehicle.stopId = readString(reader); return true;
+      case 8: vehicle.vehicle = readVehicleDescriptor(readBytes(reader)); return true;
+      case 9: vehicle.occupancyStatus = OCCUPANCY_STATUSES[readInt32(reader)]; return true;
+      case 10: vehicle.occupancyPercentage = readUint(reader); return true;
+      default: return false;
+    }
+  });
+  return vehicle;
+}
+
+function readStopTimeEvent(reader: ProtoReader): StopTimeEvent {
+  const event: StopTimeEvent = {};
+  readMessage(reader, (field) => {
+    switch (field) {
+      case 1: event.delay = readInt32(reader); return true;
+      case 2: event.time = readInt64(reader) * 1000; return true;
+      case 3: event.uncertainty = readInt32(reader); return true;
+      default: return false;
+    }
+  });
+  return event;
+}
+
+function readStopTimeUpdate(reader: ProtoReader): StopTimeUpdate {
+  const update: StopTimeUpdate = {};
+  readMessage(reader, (field) => {
+    switch (field) {
+      case 1: update.stopSequence = readUint(reader); return true;
+      case 2: update.arrival = readStopTimeEvent(readBytes(reader)); return true;
+      case 3: update.departure = readStopTimeEvent(readBytes(reader)); return true;
+      case 4: update.stopId = readString(reader); return true;
+      case 5: update.scheduleRelationship = STOP_SCHEDULE_RELATIONSHIPS[readInt32(reader)]; return true;
+      default: return false;
+    }
+  });
+  return update;
+}
+
+function readTripUpdate(reader: ProtoReader, entityId: string): TripUpdate {
+  const update: TripUpdate = { entityId, trip: {}, stopTimeUpdates: [] };
+  readMessage(reader, (field) => {
+    switch (field) {
+      case 1: update.trip = readTripDescriptor(readBytes(reader)); return true;
+      case 2: update.stopTimeUpdates.push(readStopTimeUpdate(readBytes(reader))); return true;
+      case 3: update.vehicle = readVehicleDescriptor(readBytes(reader)); return true;
+      case 4: update.timestamp = readUint(reader) * 1000; return true;
+      case 5: update.delay = readInt32(reader); return true;
+      default: return false;
+    }
+  });
+  return update;
+}
+
+// Decode a GTFS-Realtime FeedMessage protobuf frame
+export function decodeFeedMessage(data: ArrayBuffer | Uint8Array): FeedMessage {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const reader: ProtoReader = {
+    pos: 0,
+    end: bytes.length,
+    bytes,
+    view: new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength),
+  };
+
+  const message: FeedMessage = {
+    header: { gtfsRealtimeVersion: '', incrementality: 'FULL_DATASET' },
+    vehiclePositions: [],
+    tripUpdates: [],
+    deletedEntityIds: [],
+  };
+
+  readMessage(reader, (field) => {
+    if (field === 1) {
+      const header = readBytes(reader);
+      readMessage(header, (headerField) => {
+        switch (headerField) {
+          case 1: message.header.gtfsRealtimeVersion = readString(header); return true;
+          case 2: message.header.incrementality = readInt32(header) === 1 ? 'DIFFERENTIAL' : 'FULL_DATASET'; return true;
+          case 3: message.header.timestamp = readUint(header) * 1000; return true;
+          default: return false;
+        }
+      });
+      return true;
+    }
+
+    if (field === 2) {
+      const entity = readBytes(reader);
+      let entityId = '';
+      let isDeleted = false;
+      readMessage(entity, (entityField) => {
+        switch (entityField) {
+          case 1: entityId = readString(entity); return true;
+          case 2: isDeleted = readUint(entity) !== 0; return true;
+          case 3: message.tripUpdates.push(readTripUpdate(readBytes(entity), entityId)); return true;
+          case 4: message.vehiclePositions.push(readVehiclePosition(readBytes(entity), entityId)); return true;
+          default: return false;
+        }
+      });
+      if (isDeleted) {
+        message.deletedEntityIds.push(entityId);
+      }
+      return true;
+    }
+
+    return false;
+  });
+
+  return message;
+}
+
+// Flatten a FeedMessage into the envelopes useWebSocketSubscription dispatches
+export function decodeFeedEnvelopes(data: ArrayBuffer): SubscriptionEnvelope[] {
+  const message = decodeFeedMessage(data);
+  return [
+    { event: 'feedHeader', data: message.header },
+    ...message.vehiclePositions.map(vehicle => ({ event: 'vehiclePosition', data: vehicle })),
+    ...message.tripUpdates.map(update => ({ event: 'tripUpdate', data: update })),
+    ...message.deletedEntityIds.map(entityId => ({ event: 'entityDeleted', data: entityId })),
+  ];
+}
+
+interface GtfsRealtimeHandlers {
+  onFeedHeader?: (header: FeedMessage['header']) => void;
+  onVehiclePosition?: (vehicle: VehiclePosition) => void;
+  onTripUpdate?: (update: TripUpdate) => void;
+  onEntityDeleted?: (entityId: string) => void;
+}
+
+export function useGtfsRealtimeSubscription(
+  url: string,
+  {
+    onFeedHeader,
+    onVehiclePosition,
+    onTripUpdate,
+    onEntityDeleted,
+  }: GtfsRealtimeHandlers,
+  options?: Omit<WebSocketOptions, 'url' | 'onMessage' | 'binaryType' | 'decodeBinary'>
+) {
+  const subscriptions = useMemo(() => [
+    { event: 'feedHeader', handler: (header: FeedMessage['header']) => onFeedHeader?.(header) },
+    { event: 'vehiclePosition', handler: (vehicle: VehiclePosition) => onVehiclePosition?.(vehicle) },
+    { event: 'tripUpdate', handler: (update: TripUpdate) => onTripUpdate?.(update) },
+    { event: 'entityDeleted', handler: (entityId: string) => onEntityDeleted?.(entityId) },
+  ], [onFeedHeader, onVehiclePosition, onTripUpdate, onEntityDeleted]);
+
+  return useWebSocketSubscription(url, subscriptions, {
+    ...options,
+    binaryType: 'arraybuffer',
+    decodeBinary: decodeFeedEnvelopes,
+  });
+}
@@ -0,0 +1,253 @@
+'use client';
+
+import { useState, useCallback, useMemo, useRef } from 'react';
+import { RouteShape, projectOntoShape } from './useRouteShape';
+import { VehicleFix } from './useStopEta';
+
+export type HeadwayStatus = 'bunched' | 'regular' | 'gap';
+
+export interface HeadwayMeasurement {
+  routeId: string;
+  leaderId: string;
+  followerId: string;
+  // Time in seconds until the follower reaches where the leader is now
+  headway: number;
+  scheduledHeadway: number;
+  // Metres between the two vehicles along the route
+  distanceGap: number;
+  status: HeadwayStatus;
+  timestamp: number;
+}
+
+interface ProgressSample {
+  distanceAlong: number;
+  timestamp: number;
+}
+
+interface TrackedVehicle {
+  vehicleId: string;
+  routeId: string;
+  trail: ProgressSample[];
+  speed: number;
+}
+
+interface UseHeadwayMonitorOptions {
+  // Scheduled headway in seconds, fixed or looked up per route and time
+  scheduledHeadway: number | ((routeId: string, timestamp: number) => number);
+  // Headway below this fraction of schedule counts as bunching
+  bunchingRatio?: number;
+  // Headway above this multiple of schedule counts as a gap
+  gapRatio?: number;
+  // Number of samples kept per route for charting
+  timelineLength?: number;
+  // Samples of progress kept per vehicle for passage-time lookups
+  trailLength?: number;
+  // Vehicles without a position for this many milliseconds are left out of pairs
+  staleAfter?: number;
+  onBunching?: (measurement: HeadwayMeasurement) => void;
+  onGap?: (measurement: HeadwayMeasurement) => void;
+}
+
+// Time at which a vehicle passed a distance along the route, if its trail covers it
+function passageTime(trail: ProgressSample[], distance: number): number | null {
+  for (let i = trail.length - 1; i > 0; i--) {
+    const newer = trail[i];
+    const older = trail[i - 1];
+    if (older.distanceAlong <= distance && newer.distanceAlong >= distance) {
+      const span = newer.distanceAlong - older.distanceAlong;
+      const t = span === 0 ? 0 : (distance - older.distanceAlong) / span;
+      return older.timestamp + t * (newer.timestamp - older.timestamp);
+    }
+  }
+  return null;
+}
+
+export function classifyHeadway(
+  headway: number,
+  scheduledHeadway: number,
+  bunchingRatio = 0.5,
+  gapRatio = 1.5
+): HeadwayStatus {
+  if (headway < scheduledHeadway * bunchingRatio) return 'bunched';
+  if (headway > scheduledHeadway * gapRatio) return 'gap';
+  return 'regular';
+}
+
+export function useHeadwayMonitor({
+  scheduledHeadway,
+  bunchingRatio = 0.5,
+  gapRatio = 1.5,
+  timelineLength = 500,
+  trailLength = 60,
+  staleAfter = 2 * 60 * 1000,
+  onBunching,
+  onGap,
+}: UseHeadwayMonitorOptions) {
+  const vehiclesRef = useRef(new Map<string, TrackedVehicle>());
+  // Last status of each leader→follower pair, per route
+  const pairStatusRef = useRef(new Map<string, Map<string, HeadwayStatus>>());
+  const [headways, setHeadways] = useState<Record<string, HeadwayMeasurement[]>>({});
+  const [timelines, setTimelines] = useState<Record<string, HeadwayMeasurement[]>>({});
+
+  const getScheduledHeadway = useCallback((routeId: string, timestamp: number) => {
+    return typeof scheduledHeadway === 'function'
+      ? scheduledHeadway(routeId, timestamp)
+      : scheduledHeadway;
+  }, [scheduledHeadway]);
+
+  // Recompute headways between consecutive vehicles on one route. A bus that
+  // stopped reporting would otherwise stay in place as a false leader or follower.
+  const measureRoute = useCallback((routeId: string, timestamp: number) => {
+    const vehicles = Array.from(vehiclesRef.current.values())
+      .filter(vehicle =>
+        vehicle.routeId === routeId &&
+        vehicle.trail.length > 0 &&
+        timestamp - vehicle.trail[vehicle.trail.length - 1].timestamp <= staleAfter
+      )
+      .sort((a, b) =>
+        b.trail[b.trail.length - 1].distanceAlong - a.trail[a.trail.length - 1].distanceAlong
+      );
+
+    const scheduled = getScheduledHeadway(routeId, timestamp);
+    const measurements: HeadwayMeasurement[] = [];
+    const previousStatus = pairStatusRef.current.get(routeId);
+    const pairStatus = new Map<string, HeadwayStatus>();
+
+    for (let i = 1; i < vehicles.length; i++) {
+      const leader = vehicles[i - 1];
+      const follower = vehicles[i];
+      const followerNow = follower.trail[follower.trail.length - 1];
+      const leaderNow = leader.trail[leader.trail.length - 1];
+      const distanceGap = leaderNow.distanceAlong - followerNow.distanceAlong;
+
+      // Prefer the observed time since the leader passed the follower's position
+      const passed = passageTime(leader.trail, followerNow.distanceAlong);
+      const headway = passed !== null
+        ? (followerNow.timestamp - passed) / 1000
+        : distanceGap / Math.max(follower.speed, 1);
+
+      const measurement: HeadwayMeasurement = {
+        routeId,
+        leaderId: leader.vehicleId,
+        followerId: follower.vehicleId,
+        headway,
+        scheduledHeadway: scheduled,
+        distanceGap,
+        status: classifyHeadway(headway, scheduled, bunchingRatio, gapRatio),
+        timestamp,
+      };
+      measurements.push(measurement);
+
+      // Notify when a pair becomes bunched or gapped, not on every update while it stays so
+      const pair = `${leader.vehicleId}→${follower.vehicleId}`;
+      pairStatus.set(pair, measurement.status);
+      if (previousStatus?.get(pair) !== measurement.status) {
+        if (measurement.status === 'bunched') onBunching?.(measurement);
+        if (measurement.status === 'gap') onGap?.(measurement);
+      }
+    }
+    pairStatusRef.current.set(routeId, pairStatus);
+
+    setHeadways(prev => ({ ...prev, [routeId]: measurements }));
+    setTimelines(prev => ({
+      ...prev,
+      [routeId]: [...(prev[routeId] ?? []), ...measurements].slice(-timelineLength),
+    }));
+
+    return measurements;
+  }, [getScheduledHeadway, bunchingRatio, gapRatio, timelineLength, staleAfter, onBunching, onGap]);
+
+  // Record a vehicle's progress along its route and refresh that route's headways
+  const updateVehicle = useCallback((
+    vehicleId: string,
+    routeId: string,
+    shape: RouteShape,
+    fix: VehicleFix
+  ) => {
+    const existing = vehiclesRef.current.get(vehicleId);
+    const tracked: TrackedVehicle = existing && existing.routeId === routeId
+      ? existing
+      : { vehicleId, routeId, trail: [], speed: 0 };
+
+    const last = tracked.trail[tracked.trail.length - 1];
+    const projection = projectOntoShape(shape, fix, {
+      nearDistance: last?.distanceAlong,
+    }) ?? projectOntoShape(shape, fix);
+    if (!projection) return [];
+
+    // A new trip starting back at the beginning of the route resets the trail
+    if (last && projection.distanceAlong < last.distanceAlong - 500) {
+      tracked.trail = [];
+    }
+
+    const previous = tracked.trail[tracked.trail.length - 1];
+    if (previous && fix.timestamp > previous.timestamp) {
+      const elapsed = (fix.timestamp - previous.timestamp) / 1000;
+      const advanced = Math.max(0, projection.distanceAlong - previous.distanceAlong);
+      tracked.speed = fix.speed ?? advanced / elapsed;
+    } else if (fix.speed !== undefined) {
+      tracked.speed = fix.speed;
+    }
+
+    tracked.trail = [
+      ...tracked.trail,
+      {
+        distanceAlong: Math.max(projection.distanceAlong, previous?.distanceAlong ?? 0),
+        timestamp: fix.timestamp,
+      },
+    ].slice(-trailLength);
+    vehiclesRef.current.set(vehicleId, tracked);
+
+    if (existing && existing.routeId !== routeId) {
+      measureRoute(existing.routeId, fix.timestamp);
+    }
+    return measureRoute(routeId, fix.timestamp);
+  }, [trailLength, measureRoute]);
+
+  const removeVehicle = useCallback((vehicleId: string) => {
+    const existing = vehiclesRef.current.get(vehicleId);
+    if (!existing) return;
+    vehiclesRef.current.delete(vehicleId);
+    measureRoute(existing.routeId, Date.now());
+  }, [measureRoute]);
+
+  return {
+    headways,
+    timelines,
+    updateVehicle,
+    removeVehicle,
+  };
+}
+
+// Helper hook for charting one route's headways over time
+interface UseHeadwayTimelineOptions {
+  // Only include samples newer than this many milliseconds
+  timeWindow?: number;
+}
+
+export function useHeadwayTimeline(
+  timelines: Record<string, HeadwayMeasurement[]>,
+  routeId: string,
+  { timeWindow = 60 * 60 * 1000 }: UseHeadwayTimelineOptions = {}
+) {
+  return useMemo(() => {
+    const samples = timelines[routeId] ?? [];
+    const since = samples.length > 0 ? samples[samples.length - 1].timestamp - timeWindow : 0;
+    const recent = samples.filter(sample => sample.timestamp >= since);
+
+    return {
+      series: recent.map(sample => ({
+        x: sample.timestamp,
+        y: sample.headway,
+        scheduled: sample.scheduledHeadway,
+        pair: `${sample.leaderId}→${sample.followerId}`,
+        status: sample.status,
+      })),
+      bunchedCount: recent.filter(sample => sample.status === 'bunched').length,
+      gapCount: recent.filter(sample => sample.status === 'gap').length,
+      averageHeadway: recent.length > 0
+        ? recent.reduce((sum, sample) => sum + sample.headway, 0) / recent.length
+        : null,
+    };
+  }, [timelines, routeId, timeWindow]);
+}
@@ -1,13 +1,14 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
+import { tenantKey } from '@/lib/tenant';
 
-interface IndexedDBOptions {
+export interface IndexedDBOptions {
   databaseName: string;
   version?: number;
   stores: {
     [key: string]: {
-      keyPath?: string;
+      keyPath?: string | string[];
       autoIncrement?: boolean;
       indexes?: {
         name: string;
@@ -28,7 +29,10 @@ interface UseIndexedDBReturn {
   get: <T>(storeName: string, key: IDBValidKey) => Promise<T>;
   getAll: <T>(storeName: string) => Promise<T[]>;
   put: <T>(storeName: string, data: T) => Promise<IDBValidKey>;
-  remove: (storeName: string, key: IDBValidKey) => Promise<void>;
+  putAll: <T>(storeName: string, items: T[]) => Promise<number>;
+  replaceAll: (records: Record<string, unknown[]>) => Promise<void>;
+  remove: (storeName: string, key: IDBValidKey | IDBKeyRange) => Promise<void>;
+  removeAll: (storeName: string, keys: IDBValidKey[]) => Promise<number>;
   clear: (storeName: string) => Promise<void>;
   count: (storeName: string) => Promise<number>;
   query: <T>(
@@ -55,7 +59,8 @@ export function useIndexedDB({
 
   // Initialize database
   useEffect(() => {
-    const request = indexedDB.open(databaseName, version);
+    // One database per tenant, so agencies never share records
+    const request = indexedDB.open(tenantKey(databaseName), version);
 
     request.onerror = () => {
       const error = new Error(`Failed to open database: ${request.error?.message}`);
@@ -160,16 +165,103 @@ export function useIndexedDB({
     );
   }, [transaction]);
 
+  // Put many records in a single transaction
+  const putAll = useCallback(<T>(
+    storeName: string,
+    items: T[]
+  ): Promise<number> => {
+    return new Promise((resolve, reject) => {
+      if (!db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      try {
+        const tx = db.transaction(storeName, 'readwrite');
+        const store = tx.objectStore(storeName);
+        items.forEach((item) => store.put(item));
+
+        tx.oncomplete = () => resolve(items.length);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }, [db]);
+
+  // Clear and refill several stores in one transaction, so a failure leaves
+  // every store as it was
+  const replaceAll = useCallback((
+    records: Record<string, unknown[]>
+  ): Promise<void> => {
+    return new Promise((resolve, reject) => {
+      if (!db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      let tx: IDBTransaction;
+      try {
+        tx = db.transaction(Object.keys(records), 'readwrite');
+      } catch (error) {
+        reject(error);
+        return;
+      }
+
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+
+      try {
+        Object.entries(records).forEach(([storeName, items]) => {
+          const store = tx.objectStore(storeName);
+          store.clear();
+          items.forEach((item) => store.put(item));
+        });
+      } catch (error) {
+        // A record with an invalid key throws before the transaction commits
+        tx.abort();
+        reject(error);
+      }
+    });
+  }, [db]);
+
   // Remove data
   const remove = useCallback((
     storeName: string,
-    key: IDBValidKey
+    key: IDBValidKey | IDBKeyRange
   ): Promise<void> => {
     return transaction<void>(storeName, 'readwrite', (store) =>
       store.delete(key)
     );
   }, [transaction]);
 
+  // Remove many records in a single transaction
+  const removeAll = useCallback((
+    storeName: string,
+    keys: IDBValidKey[]
+  ): Promise<number> => {
+    return new Promise((resolve, reject) => {
+      if (!db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      try {
+        const tx = db.transaction(storeName, 'readwrite');
+        const store = tx.objectStore(storeName);
+        keys.forEach((key) => store.delete(key));
+
+        tx.oncomplete = () => resolve(keys.length);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }, [db]);
+
   // Clear store
   const clear = useCallback((storeName: string): Promise<void> => {
     return transaction<void>(storeName, 'readwrite', (store) =>
@@ -237,7 +329,10 @@ export function useIndexedDB({
     get,
     getAll,
     put,
+    putAll,
+    replaceAll,
     remove,
+    removeAll,
     clear,
     count,
     query,
@@ -254,7 +349,9 @@ export function useStore<T>(
     get,
     getAll,
     put,
+    putAll,
     remove,
+    removeAll,
     clear,
     count,
     query,
@@ -267,7 +364,9 @@ export function useStore<T>(
     get: (key: IDBValidKey) => get<T>(storeName, key),
     getAll: () => getAll<T>(storeName),
     put: (data: T) => put<T>(storeName, data),
+    putAll: (items: T[]) => putAll<T>(storeName, items),
     remove: (key: IDBValidKey) => remove(storeName, key),
+    removeAll: (keys: IDBValidKey[]) => removeAll(storeName, keys),
     clear: () => clear(storeName),
     count: () => count(storeName),
     query: (options?: Parameters<typeof query>[1]) => query<T>(storeName, options),
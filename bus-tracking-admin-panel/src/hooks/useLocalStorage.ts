@@ -0,0 +1,63 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { getTenantId, tenantKey } from '@/lib/tenant';
+
+interface LocalStorageOptions {
+  // Agency whose namespace holds the key; defaults to the page's tenant
+  tenantId?: string | null;
+}
+
+type SetValue<T> = (value: T | ((prev: T) => T)) => void;
+
+// State mirrored to localStorage as JSON. Keys are always namespaced by tenant,
+// so callers cannot leak values between agencies by forgetting to.
+export function useLocalStorage<T>(
+  baseKey: string,
+  initialValue: T,
+  { tenantId = getTenantId() }: LocalStorageOptions = {}
+): [T, SetValue<T>] {
+  const key = tenantKey(baseKey, tenantId);
+  const [value, setValueInternal] = useState<T>(initialValue);
+  const initialValueRef = useRef(initialValue);
+  initialValueRef.current = initialValue;
+
+  // Load after mount so the server and the first client render agree
+  useEffect(() => {
+    try {
+      const stored = window.localStorage.getItem(key);
+      setValueInternal(stored !== null ? JSON.parse(stored) : initialValueRef.current);
+    } catch (error) {
+      console.error(`Failed to read localStorage key "${key}":`, error);
+    }
+  }, [key]);
+
+  // Follow changes made in other tabs of the same tenant
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.storageArea !== window.localStorage || event.key !== key) return;
+      try {
+        setValueInternal(event.newValue !== null ? JSON.parse(event.newValue) : initialValueRef.current);
+      } catch (error) {
+        console.error(`Failed to read localStorage key "${key}":`, error);
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [key]);
+
+  const setValue = useCallback<SetValue<T>>((newValue) => {
+    setValueInternal(prev => {
+      const nextValue = newValue instanceof Function ? newValue(prev) : newValue;
+      try {
+        window.localStorage.setItem(key, JSON.stringify(nextValue));
+      } catch (error) {
+        console.error(`Failed to write localStorage key "${key}":`, error);
+      }
+      return nextValue;
+    });
+  }, [key]);
+
+  return [value, setValue];
+}
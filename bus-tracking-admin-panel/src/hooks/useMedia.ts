@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { BREAKPOINTS } from '@/lib/constants';
+import { tenantKey } from '@/lib/tenant';
 
 type MediaQueryObject = {
   [key: string]: string | number | boolean;
@@ -122,14 +123,14 @@ export function useDarkMode(defaultValue = false): [boolean, () => void] {
 
   const [isDark, setIsDark] = useState(
     typeof window !== 'undefined'
-      ? localStorage.getItem('darkMode') === 'true'
+      ? localStorage.getItem(tenantKey('darkMode')) === 'true'
       : defaultValue
   );
 
   useEffect(() => {
     if (typeof window === 'undefined') return;
     document.documentElement.classList.toggle('dark', isDark);
-    localStorage.setItem('darkMode', String(isDark));
+    localStorage.setItem(tenantKey('darkMode'), String(isDark));
   }, [isDark]);
 
   const toggle = useCallback(() => {
@@ -139,7 +140,7 @@ export function useDarkMode(defaultValue = false): [boolean, () => void] {
   // Update dark mode if system preference changes and no manual selection
   useEffect(() => {
     if (typeof window === 'undefined') return;
-    if (localStorage.getItem('darkMode') === null) {
+    if (localStorage.getItem(tenantKey('darkMode')) === null) {
       setIsDark(prefersDark);
     }
   }, [prefersDark]);
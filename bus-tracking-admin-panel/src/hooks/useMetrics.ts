@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useNetwork } from './useNetwork';
+import { tenantHeaders } from '@/lib/tenant';
 
 interface MetricEvent {
   name: string;
@@ -52,9 +53,9 @@ export function useMetrics({
       if (endpoint) {
         const response = await fetch(endpoint, {
           method: 'POST',
-          headers: {
+          headers: tenantHeaders({
             'Content-Type': 'application/json',
-          },
+          }),
           body: JSON.stringify({
             events,
             timestamp: Date.now(),
@@ -74,9 +75,9 @@ export function useMetrics({
         const failedBatch = failedBatchesRef.current[0];
         await fetch(endpoint!, {
           method: 'POST',
-          headers: {
+          headers: tenantHeaders({
             'Content-Type': 'application/json',
-          },
+          }),
           body: JSON.stringify(failedBatch),
         });
         failedBatchesRef.current.shift();
@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useRouter, usePathname, useSearchParams } from 'next/navigation';
+import { tenantKey } from '@/lib/tenant';
 
 interface NavigationState {
   previousPath: string | null;
@@ -188,7 +189,7 @@ export function useNavigation({
   useEffect(() => {
     if (persistState) {
       try {
-        localStorage.setItem('navigationState', JSON.stringify({
+        localStorage.setItem(tenantKey('navigationState'), JSON.stringify({
           navigationStack: state.navigationStack,
           forwardStack: forwardStackRef.current,
         }));
@@ -202,7 +203,7 @@ export function useNavigation({
   useEffect(() => {
     if (persistState) {
       try {
-        const savedState = localStorage.getItem('navigationState');
+        const savedState = localStorage.getItem(tenantKey('navigationState'));
         if (savedState) {
           const { navigationStack, forwardStack } = JSON.parse(savedState);
           setState(prev => ({
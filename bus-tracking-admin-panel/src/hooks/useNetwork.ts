@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { useEventListener } from './useEventListener';
+import { tenantKey } from '@/lib/tenant';
 
 interface NetworkState {
   online: boolean;
@@ -220,8 +221,9 @@ interface UseOfflineFirstOptions {
 
 export function useOfflineFirst<T>({
   storage = localStorage,
-  key = 'offline_data',
+  key: baseKey = 'offline_data',
 }: UseOfflineFirstOptions = {}) {
+  const key = tenantKey(baseKey);
   const { online } = useNetwork();
   const [queue, setQueue] = useState<Array<() => Promise<T>>>([]);
 
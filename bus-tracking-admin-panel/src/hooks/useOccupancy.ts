@@ -0,0 +1,154 @@
+'use client';
+
+import { useCallback, useMemo } from 'react';
+import { OccupancyStatus } from './useGtfsRealtime';
+import {
+  FleetState,
+  FleetStore,
+  FleetVehicle,
+  fleetStore,
+  useFleetSelector,
+  useFleetVehicle,
+} from './useFleetStore';
+
+export type CrowdingLevel = 'low' | 'moderate' | 'crowded' | 'full' | 'unknown';
+
+export interface OccupancySummary {
+  vehicleCount: number;
+  // Vehicles with a known occupancy band
+  reportingCount: number;
+  totalLoad: number;
+  totalCapacity: number;
+  // Load over capacity of the vehicles reporting a load, 0-100+
+  percentage: number | null;
+  byStatus: Partial<Record<OccupancyStatus, number>>;
+  byCrowding: Record<CrowdingLevel, number>;
+  mostCrowdedVehicleId: string | null;
+}
+
+const CROWDING_BY_STATUS: Record<OccupancyStatus, CrowdingLevel> = {
+  EMPTY: 'low',
+  MANY_SEATS_AVAILABLE: 'low',
+  FEW_SEATS_AVAILABLE: 'moderate',
+  STANDING_ROOM_ONLY: 'crowded',
+  CRUSHED_STANDING_ROOM_ONLY: 'full',
+  FULL: 'full',
+  NOT_ACCEPTING_PASSENGERS: 'full',
+  NO_DATA_AVAILABLE: 'unknown',
+  NOT_BOARDABLE: 'unknown',
+};
+
+// Marker and row colours, in line with the theme's success/warning/error palette
+export const CROWDING_COLORS: Record<CrowdingLevel, string> = {
+  low: '#34C759',
+  moderate: '#FFCC00',
+  crowded: '#FF9500',
+  full: '#FF3B30',
+  unknown: '#8E8E93',
+};
+
+const CROWDING_RANK: Record<CrowdingLevel, number> = {
+  unknown: 0,
+  low: 1,
+  moderate: 2,
+  crowded: 3,
+  full: 4,
+};
+
+export function crowdingLevel(status: OccupancyStatus | undefined): CrowdingLevel {
+  return status ? CROWDING_BY_STATUS[status] : 'unknown';
+}
+
+export function summarizeOccupancy(vehicles: FleetVehicle[]): OccupancySummary {
+  const byStatus: Partial<Record<OccupancyStatus, number>> = {};
+  const byCrowding: Record<CrowdingLevel, number> = {
+    low: 0,
+    moderate: 0,
+    crowded: 0,
+    full: 0,
+    unknown: 0,
+  };
+  let totalLoad = 0;
+  let totalCapacity = 0;
+  let mostCrowdedVehicleId: string | null = null;
+  let highestRank = 0;
+  let highestPercentage = -1;
+
+  vehicles.forEach((vehicle) => {
+    const level = crowdingLevel(vehicle.occupancyStatus);
+    byCrowding[level] += 1;
+    if (vehicle.occupancyStatus) {
+      byStatus[vehicle.occupancyStatus] = (byStatus[vehicle.occupancyStatus] ?? 0) + 1;
+    }
+    if (vehicle.occupancy) {
+      totalLoad += vehicle.occupancy.load;
+      totalCapacity += vehicle.occupancy.capacity.total;
+    }
+
+    // Rank by band first; the percentage breaks ties within a band
+    const rank = CROWDING_RANK[level];
+    const percentage = vehicle.occupancyPercentage ?? 0;
+    if (rank > highestRank || (rank > 0 && rank === highestRank && percentage > highestPercentage)) {
+      mostCrowdedVehicleId = vehicle.vehicleId;
+      highestRank = rank;
+      highestPercentage = percentage;
+    }
+  });
+
+  return {
+    vehicleCount: vehicles.length,
+    reportingCount: vehicles.length - byCrowding.unknown,
+    totalLoad,
+    totalCapacity,
+    percentage: totalCapacity > 0 ? (totalLoad / totalCapacity) * 100 : null,
+    byStatus,
+    byCrowding,
+    mostCrowdedVehicleId,
+  };
+}
+
+export function useVehicleOccupancy(vehicleId: string, store: FleetStore = fleetStore) {
+  const vehicle = useFleetVehicle(vehicleId, store);
+
+  return useMemo(() => {
+    const level = crowdingLevel(vehicle?.occupancyStatus);
+    return {
+      status: vehicle?.occupancyStatus ?? null,
+      percentage: vehicle?.occupancyPercentage ?? null,
+      load: vehicle?.occupancy?.load ?? null,
+      capacity: vehicle?.occupancy?.capacity ?? vehicle?.capacity ?? null,
+      boardings: vehicle?.occupancy?.boardings ?? 0,
+      alightings: vehicle?.occupancy?.alightings ?? 0,
+      updatedAt: vehicle?.occupancy?.updatedAt ?? null,
+      crowding: level,
+      color: CROWDING_COLORS[level],
+    };
+  }, [vehicle]);
+}
+
+const sameVehicles = (a: FleetVehicle[], b: FleetVehicle[]) =>
+  a.length === b.length && a.every((vehicle, i) => vehicle === b[i]);
+
+// Helper hook for route views; recomputes only when a vehicle on the route changes
+export function useRouteOccupancy(routeId: string, store: FleetStore = fleetStore) {
+  const selector = useCallback(
+    (state: FleetState) => Object.values(state.vehicles)
+      .filter(vehicle => vehicle.routeId === routeId && !vehicle.isStale)
+      .sort((a, b) => a.vehicleId.localeCompare(b.vehicleId)),
+    [routeId]
+  );
+  const vehicles = useFleetSelector(selector, sameVehicles, store);
+
+  return useMemo(() => {
+    const summary = summarizeOccupancy(vehicles);
+    const level = summary.mostCrowdedVehicleId
+      ? crowdingLevel(vehicles.find(v => v.vehicleId === summary.mostCrowdedVehicleId)?.occupancyStatus)
+      : 'unknown';
+    return {
+      ...summary,
+      vehicles,
+      // Colour of the route's most crowded vehicle
+      color: CROWDING_COLORS[level],
+    };
+  }, [vehicles]);
+}
@@ -0,0 +1,140 @@
+'use client';
+
+import { useState, useCallback, useRef } from 'react';
+import { Coordinates } from './useGeolocation';
+import { RouteShape, ShapeProjection, projectOntoShape } from './useRouteShape';
+import { VehicleFix } from './useStopEta';
+
+export interface RouteAdherence {
+  vehicleId: string;
+  projection: ShapeProjection;
+  // Absolute cross-track deviation in metres
+  deviation: number;
+  consecutiveOffRoute: number;
+  isOffRoute: boolean;
+  offRouteSince: number | null;
+  timestamp: number;
+}
+
+export interface OffRouteEvent {
+  type: 'off-route' | 'rejoined';
+  vehicleId: string;
+  position: Coordinates;
+  deviation: number;
+  distanceAlong: number;
+  timestamp: number;
+  // How long the vehicle was off route, for rejoined events
+  duration?: number;
+}
+
+interface UseOffRouteOptions {
+  // Cross-track distance in metres beyond which a fix counts as off route
+  threshold?: number;
+  // Number of consecutive fixes beyond the threshold before raising an event
+  consecutiveFixes?: number;
+  // Number of consecutive fixes back within the threshold before rejoining
+  rejoinFixes?: number;
+  onEvent?: (event: OffRouteEvent) => void;
+}
+
+interface TrackingState {
+  adherence: RouteAdherence;
+  consecutiveOnRoute: number;
+}
+
+export function useOffRouteDetection({
+  threshold = 50,
+  consecutiveFixes = 3,
+  rejoinFixes = 2,
+  onEvent,
+}: UseOffRouteOptions = {}) {
+  const [adherence, setAdherence] = useState<Record<string, RouteAdherence>>({});
+  const trackingRef = useRef(new Map<string, TrackingState>());
+
+  // Project a fix onto the vehicle's assigned shape and update its off-route state
+  const updatePosition = useCallback((
+    vehicleId: string,
+    shape: RouteShape,
+    fix: VehicleFix
+  ): RouteAdherence | null => {
+    const previous = trackingRef.current.get(vehicleId);
+    const nearby = projectOntoShape(shape, fix, {
+      nearDistance: previous?.adherence.projection.distanceAlong,
+    });
+    // The window around the last position always finds some segment; after a long
+    // detour the vehicle may rejoin far from it, so search the whole shape too
+    const full = !nearby || Math.abs(nearby.crossTrack) > threshold
+      ? projectOntoShape(shape, fix)
+      : null;
+    const projection = nearby && (!full || Math.abs(nearby.crossTrack) <= Math.abs(full.crossTrack))
+      ? nearby
+      : full;
+    if (!projection) return null;
+
+    const deviation = Math.abs(projection.crossTrack);
+    const isBeyond = deviation > threshold;
+
+    const wasOffRoute = previous?.adherence.isOffRoute ?? false;
+    const consecutiveOffRoute = isBeyond ? (previous?.adherence.consecutiveOffRoute ?? 0) + 1 : 0;
+    const consecutiveOnRoute = isBeyond ? 0 : (previous?.consecutiveOnRoute ?? 0) + 1;
+
+    let isOffRoute = wasOffRoute;
+    let offRouteSince = previous?.adherence.offRouteSince ?? null;
+
+    if (!wasOffRoute && consecutiveOffRoute >= consecutiveFixes) {
+      isOffRoute = true;
+      offRouteSince = fix.timestamp;
+      onEvent?.({
+        type: 'off-route',
+        vehicleId,
+        position: fix,
+        deviation,
+        distanceAlong: projection.distanceAlong,
+        timestamp: fix.timestamp,
+      });
+    } else if (wasOffRoute && consecutiveOnRoute >= rejoinFixes) {
+      isOffRoute = false;
+      onEvent?.({
+        type: 'rejoined',
+        vehicleId,
+        position: fix,
+        deviation,
+        distanceAlong: projection.distanceAlong,
+        timestamp: fix.timestamp,
+        duration: offRouteSince !== null ? fix.timestamp - offRouteSince : undefined,
+      });
+      offRouteSince = null;
+    }
+
+    const next: RouteAdherence = {
+      vehicleId,
+      projection,
+      deviation,
+      consecutiveOffRoute,
+      isOffRoute,
+      offRouteSince,
+      timestamp: fix.timestamp,
+    };
+
+    trackingRef.current.set(vehicleId, { adherence: next, consecutiveOnRoute });
+    setAdherence(prev => ({ ...prev, [vehicleId]: next }));
+    return next;
+  }, [threshold, consecutiveFixes, rejoinFixes, onEvent]);
+
+  const resetVehicle = useCallback((vehicleId: string) => {
+    trackingRef.current.delete(vehicleId);
+    setAdherence(prev => {
+      const { [vehicleId]: _removed, ...rest } = prev;
+      return rest;
+    });
+  }, []);
+
+  const offRouteVehicles = Object.values(adherence).filter(entry => entry.isOffRoute);
+
+  return {
+    adherence,
+    offRouteVehicles,
+    updatePosition,
+    resetVehicle,
+  };
+}
@@ -0,0 +1,311 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { GtfsStopTime, useGtfsSchedule } from './useGtfs';
+import { StopEvent, useStopEventHistory } from './useStopEvents';
+import { FilterConfig, applyFilter } from './useFilter';
+
+export type OtpStatus = 'early' | 'on-time' | 'late';
+
+export interface OtpWindow {
+  // Seconds relative to schedule; e.g. -60 and 300 for "-1/+5 minutes"
+  early: number;
+  late: number;
+}
+
+// One actual arrival joined with its scheduled stop time
+export interface OtpObservation {
+  tripId: string;
+  routeId: string;
+  stopId: string;
+  stopSequence: number;
+  vehicleId: string;
+  serviceDate: string;
+  // Hour of day (0-23) of the scheduled arrival
+  hour: number;
+  scheduledArrival: number;
+  actualArrival: number;
+  delay: number; // seconds, positive = late
+  status: OtpStatus;
+  interpolated: boolean;
+}
+
+export interface OtpSummary {
+  total: number;
+  early: number;
+  onTime: number;
+  late: number;
+  // Percentages of total, 0-100
+  earlyPercentage: number;
+  onTimePercentage: number;
+  latePercentage: number;
+  averageDelay: number | null;
+  medianDelay: number | null;
+}
+
+export interface OtpSeriesPoint extends OtpSummary {
+  key: string;
+}
+
+export interface DelayBin {
+  // Lower edge of the bin in seconds
+  from: number;
+  to: number;
+  count: number;
+}
+
+export const DEFAULT_OTP_WINDOW: OtpWindow = { early: -60, late: 300 };
+
+export function classifyDelay(delay: number, otpWindow: OtpWindow = DEFAULT_OTP_WINDOW): OtpStatus {
+  if (delay < otpWindow.early) return 'early';
+  if (delay > otpWindow.late) return 'late';
+  return 'on-time';
+}
+
+const HOUR = 60 * 60 * 1000;
+
+const offsetFormats = new Map<string, Intl.DateTimeFormat>();
+
+// Milliseconds a time zone is ahead of UTC at the given instant
+function timeZoneOffset(time: number, timeZone: string): number {
+  let format = offsetFormats.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    offsetFormats.set(timeZone, format);
+  }
+  const parts = Object.fromEntries(format.formatToParts(time).map(part => [part.type, Number(part.value)]));
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wallClock - Math.floor(time / 1000) * 1000;
+}
+
+// Start of a GTFS service date (YYYYMMDD): noon minus 12h in the agency's time
+// zone, which is an hour off midnight on DST change days. Without a time zone
+// the browser's is used.
+export function serviceDayStart(serviceDate: string, timeZone?: string): number {
+  const year = Number(serviceDate.slice(0, 4));
+  const month = Number(serviceDate.slice(4, 6));
+  const day = Number(serviceDate.slice(6, 8));
+  if (!timeZone) return new Date(year, month - 1, day, 12).getTime() - 12 * HOUR;
+
+  const noonUtc = Date.UTC(year, month - 1, day, 12);
+  const guess = noonUtc - timeZoneOffset(noonUtc, timeZone);
+  return noonUtc - timeZoneOffset(guess, timeZone) - 12 * HOUR;
+}
+
+// Calendar date (YYYYMMDD) of an instant in the agency's time zone
+export function toServiceDate(time: number, timeZone?: string): string {
+  const date = timeZone ? new Date(time + timeZoneOffset(time, timeZone)) : new Date(time);
+  const [year, month, day] = timeZone
+    ? [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()]
+    : [date.getFullYear(), date.getMonth() + 1, date.getDate()];
+  return `${year}${String(month).padStart(2, '0')}${String(day).padStart(2, '0')}`;
+}
+
+// Join recorded stop events with scheduled stop times
+export function joinStopEvents(
+  events: StopEvent[],
+  stopTimesByTrip: Map<string, GtfsStopTime[]>,
+  otpWindow: OtpWindow = DEFAULT_OTP_WINDOW,
+  // The agency's time zone from agency.txt
+  timeZone?: string
+): OtpObservation[] {
+  const observations: OtpObservation[] = [];
+
+  events.forEach((event) => {
+    const stopTime = stopTimesByTrip.get(event.tripId)
+      ?.find(candidate => candidate.stopSequence === event.stopSequence);
+    if (!stopTime) return;
+
+    // Events recorded without a service date ran on the day they happened or, for
+    // times past midnight, the day before; take whichever is nearer the schedule
+    const scheduledOn = (date: string) => serviceDayStart(date, timeZone) + stopTime.arrivalSeconds * 1000;
+    const serviceDate = event.serviceDate || [
+      toServiceDate(event.arrivalTime, timeZone),
+      toServiceDate(event.arrivalTime - 24 * HOUR, timeZone),
+    ].reduce((best, date) =>
+      Math.abs(event.arrivalTime - scheduledOn(date)) < Math.abs(event.arrivalTime - scheduledOn(best)) ? date : best
+    );
+    const scheduledArrival = scheduledOn(serviceDate);
+    const delay = Math.round((event.arrivalTime - scheduledArrival) / 1000);
+
+    observations.push({
+      tripId: event.tripId,
+      routeId: event.routeId ?? '',
+      stopId: event.stopId,
+      stopSequence: event.stopSequence,
+      vehicleId: event.vehicleId,
+      serviceDate,
+      hour: Math.floor(stopTime.arrivalSeconds / 3600) % 24,
+      scheduledArrival,
+      actualArrival: event.arrivalTime,
+      delay,
+      status: classifyDelay(delay, otpWindow),
+      interpolated: event.interpolated,
+    });
+  });
+
+  return observations;
+}
+
+const percentage = (count: number, total: number) => (total > 0 ? (count / total) * 100 : 0);
+
+export function summarizeOtp(observations: OtpObservation[]): OtpSummary {
+  const total = observations.length;
+  const early = observations.filter(o => o.status === 'early').length;
+  const late = observations.filter(o => o.status === 'late').length;
+  const onTime = total - early - late;
+  const delays = observations.map(o => o.delay).sort((a, b) => a - b);
+  const middle = Math.floor(delays.length / 2);
+
+  return {
+    total,
+    early,
+    onTime,
+    late,
+    earlyPercentage: percentage(early, total),
+    onTimePercentage: percentage(onTime, total),
+    latePercentage: percentage(late, total),
+    averageDelay: total > 0 ? delays.reduce((sum, delay) => sum + delay, 0) / total : null,
+    medianDelay: total === 0
+      ? null
+      : delays.length % 2 === 1
+        ? delays[middle]
+        : (delays[middle - 1] + delays[middle]) / 2,
+  };
+}
+
+// Summaries per route, hour or stop, sorted by key
+export function groupOtp(
+  observations: OtpObservation[],
+  field: 'routeId' | 'hour' | 'stopId'
+): OtpSeriesPoint[] {
+  const groups = new Map<string, OtpObservation[]>();
+  observations.forEach((observation) => {
+    const key = String(observation[field]);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(observation);
+  });
+
+  return Array.from(groups.entries())
+    .map(([key, group]) => ({ key, ...summarizeOtp(group) }))
+    .sort((a, b) =>
+      field === 'hour' ? Number(a.key) - Number(b.key) : a.key.localeCompare(b.key)
+    );
+}
+
+// Histogram of delays; bins outside the range are folded into the edge bins
+export function delayDistribution(
+  observations: OtpObservation[],
+  { binSize = 60, min = -600, max = 1800 }: { binSize?: number; min?: number; max?: number } = {}
+): DelayBin[] {
+  const bins: DelayBin[] = [];
+  for (let from = min; from < max; from += binSize) {
+    bins.push({ from, to: from + binSize, count: 0 });
+  }
+
+  observations.forEach(({ delay }) => {
+    const index = Math.min(bins.length - 1, Math.max(0, Math.floor((delay - min) / binSize)));
+    bins[index].count += 1;
+  });
+
+  return bins;
+}
+
+interface UseOnTimePerformanceOptions {
+  from: number;
+  to: number;
+  // Restrict loading to one route; other filters go through `filter`
+  routeId?: string;
+  otpWindow?: OtpWindow;
+  filter?: FilterConfig<OtpObservation>;
+  // Leave out stops whose times were interpolated across GPS gaps
+  excludeInterpolated?: boolean;
+  binSize?: number;
+}
+
+export function useOnTimePerformance({
+  from,
+  to,
+  routeId,
+  otpWindow = DEFAULT_OTP_WINDOW,
+  filter,
+  excludeInterpolated = false,
+  binSize = 60,
+}: UseOnTimePerformanceOptions) {
+  const history = useStopEventHistory();
+  const schedule = useGtfsSchedule();
+  const [events, setEvents] = useState<StopEvent[]>([]);
+  const [stopTimesByTrip, setStopTimesByTrip] = useState(new Map<string, GtfsStopTime[]>());
+  const [timeZone, setTimeZone] = useState<string | undefined>();
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  // Stop times rarely change, so they are cached across reloads
+  const stopTimeCacheRef = useRef(new Map<string, GtfsStopTime[]>());
+
+  const { isReady: historyReady, getEventsBetween, getEventsForRoute } = history;
+  const { isReady: scheduleReady, getAgencies, getStopTimesForTrip } = schedule;
+
+  const load = useCallback(async () => {
+    if (!historyReady || !scheduleReady) return;
+
+    setIsLoading(true);
+    try {
+      const loaded = routeId
+        ? await getEventsForRoute(routeId, from, to)
+        : await getEventsBetween(from, to);
+      // GTFS requires every agency in a feed to share one time zone
+      const [agency] = await getAgencies();
+
+      const cache = stopTimeCacheRef.current;
+      const missing = Array.from(new Set(loaded.map(event => event.tripId)))
+        .filter(tripId => !cache.has(tripId));
+      const fetched = await Promise.all(missing.map(tripId => getStopTimesForTrip(tripId)));
+      missing.forEach((tripId, i) => cache.set(tripId, fetched[i]));
+
+      setEvents(loaded);
+      setStopTimesByTrip(new Map(cache));
+      setTimeZone(agency?.timezone || undefined);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Failed to load on-time performance'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [historyReady, scheduleReady, routeId, from, to, getEventsBetween, getEventsForRoute, getAgencies, getStopTimesForTrip]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const observations = useMemo(() => {
+    const joined = joinStopEvents(events, stopTimesByTrip, otpWindow, timeZone)
+      .filter(observation => !excludeInterpolated || !observation.interpolated);
+    return filter ? applyFilter(joined, filter) : joined;
+  }, [events, stopTimesByTrip, otpWindow, timeZone, filter, excludeInterpolated]);
+
+  const series = useMemo(() => ({
+    summary: summarizeOtp(observations),
+    byRoute: groupOtp(observations, 'routeId'),
+    byHour: groupOtp(observations, 'hour'),
+    byStop: groupOtp(observations, 'stopId'),
+    delayDistribution: delayDistribution(observations, { binSize }),
+  }), [observations, binSize]);
+
+  return {
+    observations,
+    ...series,
+    isLoading,
+    error: error ?? history.error ?? schedule.error,
+    reload: load,
+  };
+}
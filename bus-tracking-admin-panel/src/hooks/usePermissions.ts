@@ -1,42 +1,50 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useLocalStorage } from './useLocalStorage';
-
-type Permission = string;
-type Role = string;
-type Resource = string;
-type Action = 'create' | 'read' | 'update' | 'delete' | 'manage' | string;
-
-interface PermissionRule {
-  role: Role;
-  resource: Resource;
-  actions: Action[];
-  conditions?: Record<string, any>;
-}
+import {
+  Permission,
+  Role,
+  Resource,
+  Action,
+  PermissionRule,
+  RoutePermission,
+  PermissionCheck,
+  ConditionEvaluator,
+  PERMISSION_RULES,
+  ROUTE_PERMISSIONS,
+  canAccessRoute,
+  checkPermissionRules,
+  rulesForTenant,
+} from '@/lib/permissions';
+import { getTenantId } from '@/lib/tenant';
 
 interface UsePermissionsOptions {
   initialRoles?: Role[];
   rules?: PermissionRule[];
   cacheKey?: string;
+  // Agency whose rules apply; defaults to the tenant the middleware resolved
+  tenantId?: string | null;
+  // Attributes conditions can reference as `user.*`, e.g. { depotId } from the token
+  user?: Record<string, any>;
   onPermissionDenied?: (permission: Permission) => void;
-  validateConditions?: (conditions: Record<string, any>) => boolean;
-}
-
-interface PermissionCheck {
-  granted: boolean;
-  reason?: string;
+  // Overrides the built-in condition language
+  validateConditions?: ConditionEvaluator;
 }
 
 export function usePermissions({
   initialRoles = [],
-  rules = [],
+  rules = PERMISSION_RULES,
   cacheKey = 'user-permissions',
+  tenantId = getTenantId(),
+  user,
   onPermissionDenied,
   validateConditions,
 }: UsePermissionsOptions = {}) {
-  const [roles, setRoles] = useLocalStorage<Role[]>(cacheKey, initialRoles);
-  const [permissionCache] = useState<Map<string, boolean>>(new Map());
+  // Roles are stored per tenant, and only rules for this tenant (or shared ones) apply
+  const [roles, setRoles] = useLocalStorage<Role[]>(cacheKey, initialRoles, { tenantId });
+  const [permissionCache] = useState<Map<string, PermissionCheck>>(new Map());
+  const tenantRules = useMemo(() => rulesForTenant(rules, tenantId), [rules, tenantId]);
 
   // Check if user has a specific role
   const hasRole = useCallback((role: Role): boolean => {
@@ -67,51 +75,26 @@ export function usePermissions({
     action: Action,
     context: Record<string, any> = {}
   ): PermissionCheck => {
-    const cacheKey = `${resource}:${action}:${JSON.stringify(context)}`;
+    const cacheKey = `${tenantId ?? ''}:${resource}:${action}:${JSON.stringify(user ?? {})}:${JSON.stringify(context)}`;
     
     // Check cache first
-    if (permissionCache.has(cacheKey)) {
-      return { granted: permissionCache.get(cacheKey)! };
-    }
-
-    // Find matching rules
-    const matchingRules = rules.filter(rule => 
-      roles.includes(rule.role) &&
-      rule.resource === resource &&
-      (rule.actions.includes(action) || rule.actions.includes('manage'))
-    );
-
-    if (matchingRules.length === 0) {
-      return { granted: false, reason: 'No matching permission rules' };
-    }
-
-    // Check conditions if they exist
-    for (const rule of matchingRules) {
-      if (rule.conditions) {
-        if (!validateConditions) {
-          console.warn('Conditions present but no validateConditions function provided');
-          continue;
-        }
+    const cached = permissionCache.get(cacheKey);
+    if (cached) return cached;
 
-        const conditionsValid = validateConditions({
-          ...rule.conditions,
-          ...context,
-        });
-
-        if (!conditionsValid) {
-          continue;
-        }
-      }
-
-      // Cache and return result
-      permissionCache.set(cacheKey, true);
-      return { granted: true };
-    }
+    // Conditions see the user's attributes, roles and tenant alongside the caller's context
+    const result = checkPermissionRules(
+      roles,
+      tenantRules,
+      resource,
+      action,
+      { user: { ...user, roles, tenantId }, ...context },
+      validateConditions
+    );
 
     // Cache and return result
-    permissionCache.set(cacheKey, false);
-    return { granted: false, reason: 'Conditions not met' };
-  }, [roles, rules, validateConditions]);
+    permissionCache.set(cacheKey, result);
+    return result;
+  }, [roles, tenantRules, tenantId, user, validateConditions]);
 
   // Check multiple permissions at once
   const checkPermissions = useCallback((
@@ -146,7 +129,7 @@ export function usePermissions({
   }> => {
     const permissions = new Map<Resource, Set<Action>>();
 
-    rules
+    tenantRules
       .filter(rule => roles.includes(rule.role))
       .forEach(rule => {
         if (!permissions.has(rule.resource)) {
@@ -161,28 +144,28 @@ export function usePermissions({
       resource,
       actions: Array.from(actions),
     }));
-  }, [roles, rules]);
+  }, [roles, tenantRules]);
 
   // Get all resources user has access to
   const getAccessibleResources = useCallback((): Resource[] => {
     return [...new Set(
-      rules
+      tenantRules
         .filter(rule => roles.includes(rule.role))
         .map(rule => rule.resource)
     )];
-  }, [roles, rules]);
+  }, [roles, tenantRules]);
 
   // Get all actions user can perform on a resource
   const getResourceActions = useCallback((resource: Resource): Action[] => {
     return [...new Set(
-      rules
+      tenantRules
         .filter(rule => 
           roles.includes(rule.role) && 
           rule.resource === resource
         )
         .flatMap(rule => rule.actions)
     )];
-  }, [roles, rules]);
+  }, [roles, tenantRules]);
 
   return {
     roles,
@@ -196,6 +179,8 @@ export function usePermissions({
     getAllPermissions,
     getAccessibleResources,
     getResourceActions,
+    // The rules in effect for this tenant
+    rules: tenantRules,
   };
 }
 
@@ -219,27 +204,21 @@ export function useRoleBasedRender(roles: Role[] = []) {
   return { RoleBasedComponent };
 }
 
-// Helper hook for permission-based routing
+// Helper hook for permission-based routing. Uses the route map and the same
+// check the middleware enforces, so hidden links and blocked URLs stay in step.
 export function usePermissionBasedRouting(
-  routes: Array<{
-    path: string;
-    resource: Resource;
-    action: Action;
-  }>
+  routes: RoutePermission[] = ROUTE_PERMISSIONS,
+  options?: UsePermissionsOptions
 ) {
-  const { checkPermission } = usePermissions();
+  const { roles, rules } = usePermissions(options);
 
   const canAccess = useCallback((path: string) => {
-    const route = routes.find(r => r.path === path);
-    if (!route) return true; // No permission requirements specified
-    return checkPermission(route.resource, route.action).granted;
-  }, [routes, checkPermission]);
+    return canAccessRoute(path, roles, rules, routes);
+  }, [roles, rules, routes]);
 
   const getAccessibleRoutes = useCallback(() => {
-    return routes.filter(route =>
-      checkPermission(route.resource, route.action).granted
-    );
-  }, [routes, checkPermission]);
+    return routes.filter(route => canAccessRoute(route.path, roles, rules, routes));
+  }, [roles, rules, routes]);
 
   return {
     canAccess,
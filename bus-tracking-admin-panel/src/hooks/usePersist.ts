@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { debounce } from '@/lib/utils';
+import { tenantKey } from '@/lib/tenant';
 
 interface PersistOptions<T> {
   key: string;
@@ -36,7 +37,7 @@ const defaultDeserialize = JSON.parse;
 export function usePersist<T>(
   initialData: T,
   {
-    key,
+    key: baseKey,
     version = 1,
     serialize = defaultSerialize,
     deserialize = defaultDeserialize,
@@ -46,6 +47,7 @@ export function usePersist<T>(
     storage = typeof window !== 'undefined' ? window.localStorage : null,
   }: PersistOptions<T>
 ): UsePersistReturn<T> {
+  const key = tenantKey(baseKey);
   const [data, setDataInternal] = useState<T>(initialData);
   const [isPersisted, setIsPersisted] = useState(false);
   const [lastPersistedAt, setLastPersistedAt] = useState<Date | null>(null);
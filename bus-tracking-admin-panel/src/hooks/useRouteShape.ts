@@ -0,0 +1,126 @@
+'use client';
+
+import { useMemo } from 'react';
+import { Coordinates, haversineDistance, toLocalMeters } from './useGeolocation';
+
+export interface RouteShape {
+  points: Coordinates[];
+  // Distance in metres from the start of the shape to each point
+  cumulative: number[];
+  length: number;
+}
+
+export interface ShapeProjection {
+  // Metres travelled along the shape up to the snapped point
+  distanceAlong: number;
+  // Metres from the position to the shape; positive to the right of travel
+  crossTrack: number;
+  segmentIndex: number;
+  snapped: Coordinates;
+}
+
+interface ProjectOptions {
+  // Only search segments around this distance along the shape, in metres
+  nearDistance?: number;
+  searchWindow?: number;
+}
+
+export function buildRouteShape(points: Coordinates[]): RouteShape {
+  const cumulative = [0];
+  for (let i = 1; i < points.length; i++) {
+    cumulative.push(cumulative[i - 1] + haversineDistance(points[i - 1], points[i], 'm'));
+  }
+  return {
+    points,
+    cumulative,
+    length: cumulative[cumulative.length - 1] ?? 0,
+  };
+}
+
+// Index of the segment containing a distance along the shape
+function segmentAt(shape: RouteShape, distance: number): number {
+  let low = 0;
+  let high = shape.cumulative.length - 2;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (shape.cumulative[mid] <= distance) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return Math.max(0, low);
+}
+
+// Snap a position onto the nearest segment of the shape
+export function projectOntoShape(
+  shape: RouteShape,
+  position: Coordinates,
+  { nearDistance, searchWindow = 1000 }: ProjectOptions = {}
+): ShapeProjection | null {
+  const { points, cumulative } = shape;
+  if (points.length < 2) return null;
+
+  let first = 0;
+  let last = points.length - 2;
+  if (nearDistance !== undefined) {
+    first = segmentAt(shape, nearDistance - searchWindow);
+    last = segmentAt(shape, nearDistance + searchWindow);
+  }
+
+  let best: ShapeProjection | null = null;
+  let bestDistance = Infinity;
+
+  for (let i = first; i <= last; i++) {
+    const a = points[i];
+    const end = toLocalMeters(a, points[i + 1]);
+    const p = toLocalMeters(a, position);
+    const lengthSquared = end.x * end.x + end.y * end.y;
+    const t = lengthSquared === 0
+      ? 0
+      : Math.max(0, Math.min(1, (p.x * end.x + p.y * end.y) / lengthSquared));
+    const dx = p.x - t * end.x;
+    const dy = p.y - t * end.y;
+    const distance = Math.hypot(dx, dy);
+
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      // Cross product sign tells which side of the direction of travel we are on
+      const side = end.x * p.y - end.y * p.x > 0 ? -1 : 1;
+      best = {
+        distanceAlong: cumulative[i] + t * (cumulative[i + 1] - cumulative[i]),
+        crossTrack: side * distance,
+        segmentIndex: i,
+        snapped: {
+          latitude: a.latitude + t * (points[i + 1].latitude - a.latitude),
+          longitude: a.longitude + t * (points[i + 1].longitude - a.longitude),
+        },
+      };
+    }
+  }
+
+  return best;
+}
+
+// Coordinates at a distance along the shape, clamped to its ends
+export function pointAlongShape(shape: RouteShape, distance: number): Coordinates | null {
+  const { points, cumulative, length } = shape;
+  if (points.length === 0) return null;
+  if (points.length === 1 || distance <= 0) return points[0];
+  if (distance >= length) return points[points.length - 1];
+
+  const i = segmentAt(shape, distance);
+  const segmentLength = cumulative[i + 1] - cumulative[i];
+  const t = segmentLength === 0 ? 0 : (distance - cumulative[i]) / segmentLength;
+  return {
+    latitude: points[i].latitude + t * (points[i + 1].latitude - points[i].latitude),
+    longitude: points[i].longitude + t * (points[i + 1].longitude - points[i].longitude),
+  };
+}
+
+export function useRouteShape(points: Coordinates[] | null | undefined): RouteShape | null {
+  return useMemo(
+    () => (points && points.length > 0 ? buildRouteShape(points) : null),
+    [points]
+  );
+}
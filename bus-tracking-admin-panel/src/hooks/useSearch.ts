@@ -2,6 +2,7 @@
 
 import { useState, useCallback, useMemo, useRef, useEffect } from 'react';
 import { debounce } from '@/lib/utils';
+import { tenantKey } from '@/lib/tenant';
 
 interface SearchOptions<T> {
   initialQuery?: string;
@@ -55,7 +56,7 @@ export function useSearch<T extends Record<string, any>>(
   const [recentSearches, setRecentSearches] = useState<string[]>(() => {
     if (typeof window === 'undefined') return [];
     try {
-      const saved = localStorage.getItem(RECENT_SEARCHES_KEY);
+      const saved = localStorage.getItem(tenantKey(RECENT_SEARCHES_KEY));
       return saved ? JSON.parse(saved) : [];
     } catch {
       return [];
@@ -174,7 +175,7 @@ export function useSearch<T extends Record<string, any>>(
       ].slice(0, MAX_RECENT_SEARCHES);
 
       if (typeof window !== 'undefined') {
-        localStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(newRecent));
+        localStorage.setItem(tenantKey(RECENT_SEARCHES_KEY), JSON.stringify(newRecent));
       }
 
       return newRecent;
@@ -185,7 +186,7 @@ export function useSearch<T extends Record<string, any>>(
   const clearRecent = useCallback(() => {
     setRecentSearches([]);
     if (typeof window !== 'undefined') {
-      localStorage.removeItem(RECENT_SEARCHES_KEY);
+      localStorage.removeItem(tenantKey(RECENT_SEARCHES_KEY));
     }
   }, []);
 
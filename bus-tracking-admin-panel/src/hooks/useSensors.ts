@@ -9,7 +9,7 @@ interface OrientationData {
   absolute: boolean;
 }
 
-interface MotionData {
+export interface MotionData {
   acceleration: {
     x: number | null;
     y: number | null;
@@ -0,0 +1,262 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { getReconnectDelay } from './useWebSocket';
+import { REFRESH_ENDPOINT, SESSION_EXPIRES_COOKIE } from '@/lib/auth';
+
+export type SessionStatus = 'active' | 'refreshing' | 'expired';
+
+interface UseSessionOptions {
+  refreshEndpoint?: string;
+  // Milliseconds before the access token expires to renew it
+  refreshAhead?: number;
+  // Shared by all tabs of the panel
+  channelName?: string;
+  // Base and maximum delay in milliseconds between retries after network errors
+  retryDelay?: number;
+  maxRetryDelay?: number;
+  onRefresh?: (expiresAt: number) => void;
+  onExpired?: (reason: string) => void;
+}
+
+type SessionMessage =
+  | { type: 'refreshing' }
+  | { type: 'refreshed'; expiresAt: number }
+  | { type: 'expired'; reason: string };
+
+interface SessionRefreshError extends Error {
+  // Rejected refreshes end the session; failed ones are retried
+  type: 'rejected' | 'failed';
+  reason?: string;
+}
+
+const createRefreshError = (
+  message: string,
+  type: SessionRefreshError['type'],
+  reason?: string
+): SessionRefreshError => {
+  const error = new Error(message) as SessionRefreshError;
+  error.type = type;
+  error.reason = reason;
+  return error;
+};
+
+// How long another tab may hold the refresh before this one stops waiting
+const REFRESH_WAIT_TIMEOUT = 30000;
+const REFRESH_LOCK = 'auth-session-refresh';
+
+export function readSessionExpiry(): number | null {
+  if (typeof document === 'undefined') return null;
+  const match = document.cookie
+    .split('; ')
+    .find(cookie => cookie.startsWith(`${SESSION_EXPIRES_COOKIE}=`));
+  const expiresAt = match ? Number(match.slice(SESSION_EXPIRES_COOKIE.length + 1)) : NaN;
+  return Number.isFinite(expiresAt) ? expiresAt : null;
+}
+
+export function useSession({
+  refreshEndpoint = REFRESH_ENDPOINT,
+  refreshAhead = 2 * 60 * 1000,
+  channelName = 'auth-session',
+  retryDelay = 5000,
+  maxRetryDelay = 60000,
+  onRefresh,
+  onExpired,
+}: UseSessionOptions = {}) {
+  const [expiresAt, setExpiresAt] = useState<number | null>(readSessionExpiry);
+  const [status, setStatus] = useState<SessionStatus>('active');
+  const [error, setError] = useState<Error | null>(null);
+
+  const channelRef = useRef<BroadcastChannel | null>(null);
+  const inFlightRef = useRef<Promise<number | null> | null>(null);
+  const attemptRef = useRef(0);
+  const timeoutRef = useRef<NodeJS.Timeout>();
+  // Backoff retries are kept apart from the renewal schedule, which would otherwise
+  // replace them with an immediate refresh whenever the status changes
+  const retryTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const waitTimeoutRef = useRef<NodeJS.Timeout>();
+
+  const callbacksRef = useRef({ onRefresh, onExpired });
+  callbacksRef.current = { onRefresh, onExpired };
+
+  const post = useCallback((message: SessionMessage) => {
+    channelRef.current?.postMessage(message);
+  }, []);
+
+  const clearRetry = useCallback(() => {
+    if (retryTimeoutRef.current) clearTimeout(retryTimeoutRef.current);
+    retryTimeoutRef.current = null;
+  }, []);
+
+  const applyRefreshed = useCallback((next: number) => {
+    clearTimeout(waitTimeoutRef.current);
+    clearRetry();
+    attemptRef.current = 0;
+    setExpiresAt(next);
+    setStatus('active');
+    setError(null);
+    callbacksRef.current.onRefresh?.(next);
+  }, [clearRetry]);
+
+  const applyExpired = useCallback((reason: string) => {
+    clearTimeout(waitTimeoutRef.current);
+    clearTimeout(timeoutRef.current);
+    clearRetry();
+    setStatus('expired');
+    callbacksRef.current.onExpired?.(reason);
+  }, [clearRetry]);
+
+  const requestRefresh = useCallback(async (force: boolean): Promise<number> => {
+    // Another tab may have renewed the session while this one waited for the lock
+    const current = readSessionExpiry();
+    if (!force && current !== null && current - Date.now() > refreshAhead) {
+      return current;
+    }
+
+    const response = await fetch(refreshEndpoint, {
+      method: 'POST',
+      credentials: 'same-origin',
+    });
+    const body = await response.json().catch(() => ({}));
+
+    // A parallel request won the rotation; its cookies hold the new expiry
+    if (response.status === 409) {
+      const renewed = readSessionExpiry();
+      if (renewed !== null && renewed > Date.now()) return renewed;
+    }
+    if (response.status === 401) {
+      throw createRefreshError('Session has ended', 'rejected', body.reason ?? 'expired');
+    }
+    if (!response.ok || typeof body.expiresAt !== 'number') {
+      throw createRefreshError(`Session refresh failed: ${response.status}`, 'failed');
+    }
+    return body.expiresAt;
+  }, [refreshEndpoint, refreshAhead]);
+
+  // Renew the access token; concurrent calls, and other tabs, share one request
+  const refresh = useCallback((force = false): Promise<number | null> => {
+    if (inFlightRef.current) return inFlightRef.current;
+
+    const run = async () => {
+      setStatus('refreshing');
+      post({ type: 'refreshing' });
+
+      try {
+        const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined;
+        const next = locks
+          ? await locks.request(REFRESH_LOCK, () => requestRefresh(force))
+          : await requestRefresh(force);
+
+        applyRefreshed(next);
+        post({ type: 'refreshed', expiresAt: next });
+        return next;
+      } catch (err) {
+        const refreshError = err as SessionRefreshError;
+        if (refreshError.type === 'rejected') {
+          const reason = refreshError.reason ?? 'expired';
+          post({ type: 'expired', reason });
+          applyExpired(reason);
+          return null;
+        }
+
+        // Network trouble: back off and try again while the token still works
+        setError(err instanceof Error ? err : new Error('Session refresh failed'));
+        setStatus('active');
+        const delay = getReconnectDelay(attemptRef.current, {
+          baseDelay: retryDelay,
+          maxDelay: maxRetryDelay,
+        });
+        attemptRef.current += 1;
+        clearRetry();
+        retryTimeoutRef.current = setTimeout(() => {
+          retryTimeoutRef.current = null;
+          refreshRef.current();
+        }, delay);
+        return null;
+      } finally {
+        inFlightRef.current = null;
+      }
+    };
+
+    inFlightRef.current = run();
+    return inFlightRef.current;
+  }, [post, requestRefresh, applyRefreshed, applyExpired, clearRetry, retryDelay, maxRetryDelay]);
+
+  // Timers always call the latest refresh
+  const refreshRef = useRef(refresh);
+  refreshRef.current = refresh;
+
+  // Follow refreshes made by other tabs
+  useEffect(() => {
+    if (typeof BroadcastChannel === 'undefined') return;
+
+    const channel = new BroadcastChannel(channelName);
+    channelRef.current = channel;
+    channel.onmessage = (event: MessageEvent<SessionMessage>) => {
+      const message = event.data;
+      if (message.type === 'refreshing') {
+        setStatus('refreshing');
+        clearTimeout(waitTimeoutRef.current);
+        waitTimeoutRef.current = setTimeout(() => {
+          setStatus(prev => (prev === 'refreshing' ? 'active' : prev));
+        }, REFRESH_WAIT_TIMEOUT);
+      } else if (message.type === 'refreshed') {
+        applyRefreshed(message.expiresAt);
+      } else if (message.type === 'expired') {
+        applyExpired(message.reason);
+      }
+    };
+
+    return () => {
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [channelName, applyRefreshed, applyExpired]);
+
+  // Schedule the next renewal ahead of expiry
+  useEffect(() => {
+    if (expiresAt === null || status === 'expired') return;
+    // A pending retry already owns the next attempt
+    if (retryTimeoutRef.current) return;
+
+    const delay = Math.max(0, expiresAt - refreshAhead - Date.now());
+    clearTimeout(timeoutRef.current);
+    timeoutRef.current = setTimeout(() => refreshRef.current(), delay);
+    return () => clearTimeout(timeoutRef.current);
+  }, [expiresAt, refreshAhead, status]);
+
+  // Background tabs throttle timers, so check again when the tab is shown
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState !== 'visible') return;
+      const current = readSessionExpiry();
+      if (current !== null && current !== expiresAt) {
+        setExpiresAt(current);
+      }
+      if (current !== null && current - Date.now() <= refreshAhead) {
+        refreshRef.current();
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [expiresAt, refreshAhead]);
+
+  useEffect(() => {
+    return () => {
+      clearTimeout(timeoutRef.current);
+      clearTimeout(waitTimeoutRef.current);
+      clearRetry();
+    };
+  }, [clearRetry]);
+
+  return {
+    status,
+    expiresAt,
+    // Pass to useWebSocket's pauseReconnect so sockets wait for the new token
+    isRefreshing: status === 'refreshing',
+    isExpired: status === 'expired',
+    error,
+    refresh,
+  };
+}
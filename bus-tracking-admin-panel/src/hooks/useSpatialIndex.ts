@@ -0,0 +1,251 @@
+'use client';
+
+import { useState, useCallback, useRef } from 'react';
+import { Coordinates, haversineDistance } from './useGeolocation';
+
+export interface SpatialItem extends Coordinates {
+  id: string;
+}
+
+export interface BoundingBox {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+export interface NearestResult<T extends SpatialItem> {
+  item: T;
+  distance: number; // metres
+}
+
+interface SpatialIndexOptions {
+  // Grid cell size in degrees; ~0.01° (about 1 km) suits city-scale fleets
+  cellSize?: number;
+}
+
+const cellKey = (row: number, column: number) => `${row}:${column}`;
+
+// Uniform latitude/longitude grid. Plain data and functions only, so the same
+// index runs in a Web Worker without React.
+export function createSpatialIndex<T extends SpatialItem>({
+  cellSize = 0.01,
+}: SpatialIndexOptions = {}) {
+  const cells = new Map<string, Set<string>>();
+  const items = new Map<string, { item: T; key: string }>();
+
+  const rowOf = (latitude: number) => Math.floor(latitude / cellSize);
+  const columnOf = (longitude: number) => Math.floor(longitude / cellSize);
+
+  const removeFromCell = (id: string, key: string) => {
+    const cell = cells.get(key);
+    if (!cell) return;
+    cell.delete(id);
+    if (cell.size === 0) cells.delete(key);
+  };
+
+  // Insert or move an item; only touches the grid when it changes cell
+  const upsert = (item: T) => {
+    const key = cellKey(rowOf(item.latitude), columnOf(item.longitude));
+    const existing = items.get(item.id);
+
+    if (existing && existing.key !== key) {
+      removeFromCell(item.id, existing.key);
+    }
+    if (!existing || existing.key !== key) {
+      if (!cells.has(key)) cells.set(key, new Set());
+      cells.get(key)!.add(item.id);
+    }
+
+    items.set(item.id, { item, key });
+  };
+
+  const remove = (id: string) => {
+    const existing = items.get(id);
+    if (!existing) return false;
+    removeFromCell(id, existing.key);
+    items.delete(id);
+    return true;
+  };
+
+  const clear = () => {
+    cells.clear();
+    items.clear();
+  };
+
+  // Visit the items in every cell overlapping a row/column range
+  const collect = (
+    minRow: number,
+    maxRow: number,
+    minColumn: number,
+    maxColumn: number,
+    visit: (item: T) => void
+  ) => {
+    // Sparse fleets are cheaper to scan than large empty cell ranges
+    if ((maxRow - minRow + 1) * (maxColumn - minColumn + 1) > cells.size) {
+      cells.forEach((ids, key) => {
+        const [row, column] = key.split(':').map(Number);
+        if (row >= minRow && row <= maxRow && column >= minColumn && column <= maxColumn) {
+          ids.forEach(id => visit(items.get(id)!.item));
+        }
+      });
+      return;
+    }
+
+    for (let row = minRow; row <= maxRow; row++) {
+      for (let column = minColumn; column <= maxColumn; column++) {
+        cells.get(cellKey(row, column))?.forEach(id => visit(items.get(id)!.item));
+      }
+    }
+  };
+
+  const queryBoundingBox = ({ south, west, north, east }: BoundingBox): T[] => {
+    const results: T[] = [];
+    const inBox = (item: T) =>
+      item.latitude >= south &&
+      item.latitude <= north &&
+      (west <= east
+        ? item.longitude >= west && item.longitude <= east
+        : item.longitude >= west || item.longitude <= east);
+
+    // Boxes crossing the antimeridian are split in two
+    const ranges = west <= east ? [[west, east]] : [[west, 180], [-180, east]];
+    ranges.forEach(([from, to]) => {
+      collect(rowOf(south), rowOf(north), columnOf(from), columnOf(to), (item) => {
+        if (inBox(item)) results.push(item);
+      });
+    });
+
+    return results;
+  };
+
+  const queryRadius = (center: Coordinates, radius: number): NearestResult<T>[] => {
+    const latitudeDelta = radius / 111320;
+    const longitudeDelta = radius /
+      (111320 * Math.max(Math.cos((center.latitude * Math.PI) / 180), 0.01));
+    const results: NearestResult<T>[] = [];
+
+    collect(
+      rowOf(center.latitude - latitudeDelta),
+      rowOf(center.latitude + latitudeDelta),
+      columnOf(center.longitude - longitudeDelta),
+      columnOf(center.longitude + longitudeDelta),
+      (item) => {
+        const distance = haversineDistance(center, item, 'm');
+        if (distance <= radius) results.push({ item, distance });
+      }
+    );
+
+    return results.sort((a, b) => a.distance - b.distance);
+  };
+
+  // Search outward ring by ring until the k-th result can no longer improve
+  const queryNearest = (
+    center: Coordinates,
+    k: number,
+    maxDistance = Infinity
+  ): NearestResult<T>[] => {
+    if (k <= 0 || items.size === 0) return [];
+
+    const centerRow = rowOf(center.latitude);
+    const centerColumn = columnOf(center.longitude);
+    const cellMeters = cellSize * 111320 *
+      Math.max(Math.cos((center.latitude * Math.PI) / 180), 0.01);
+    const candidates: NearestResult<T>[] = [];
+    const seen = new Set<string>();
+    const maxRing = Math.ceil(180 / cellSize);
+
+    for (let ring = 0; ring <= maxRing; ring++) {
+      // Once rings span more cells than are occupied, finish with a linear scan
+      if (8 * ring > cells.size) {
+        items.forEach(({ item }) => {
+          if (seen.has(item.id)) return;
+          const distance = haversineDistance(center, item, 'm');
+          if (distance <= maxDistance) candidates.push({ item, distance });
+        });
+        candidates.sort((a, b) => a.distance - b.distance);
+        break;
+      }
+
+      for (let row = centerRow - ring; row <= centerRow + ring; row++) {
+        for (let column = centerColumn - ring; column <= centerColumn + ring; column++) {
+          // Only the border of the ring is new
+          if (Math.abs(row - centerRow) !== ring && Math.abs(column - centerColumn) !== ring) {
+            continue;
+          }
+          cells.get(cellKey(row, column))?.forEach((id) => {
+            if (seen.has(id)) return;
+            seen.add(id);
+            const { item } = items.get(id)!;
+            const distance = haversineDistance(center, item, 'm');
+            if (distance <= maxDistance) candidates.push({ item, distance });
+          });
+        }
+      }
+
+      candidates.sort((a, b) => a.distance - b.distance);
+      const reach = ring * cellMeters;
+      if (seen.size === items.size || reach > maxDistance) break;
+      if (candidates.length >= k && candidates[k - 1].distance <= reach) break;
+    }
+
+    return candidates.slice(0, k);
+  };
+
+  return {
+    upsert,
+    remove,
+    clear,
+    get: (id: string) => items.get(id)?.item,
+    size: () => items.size,
+    queryBoundingBox,
+    queryRadius,
+    queryNearest,
+  };
+}
+
+export type SpatialIndex<T extends SpatialItem> = ReturnType<typeof createSpatialIndex<T>>;
+
+export function useSpatialIndex<T extends SpatialItem>(options: SpatialIndexOptions = {}) {
+  const indexRef = useRef<SpatialIndex<T>>();
+  if (!indexRef.current) {
+    indexRef.current = createSpatialIndex<T>(options);
+  }
+  const index = indexRef.current;
+
+  // Bumped on every mutation so components can re-run their queries
+  const [version, setVersion] = useState(0);
+  const touch = useCallback(() => setVersion(v => v + 1), []);
+
+  const upsert = useCallback((item: T) => {
+    index.upsert(item);
+    touch();
+  }, [index, touch]);
+
+  const upsertMany = useCallback((items: T[]) => {
+    items.forEach(item => index.upsert(item));
+    touch();
+  }, [index, touch]);
+
+  const remove = useCallback((id: string) => {
+    if (index.remove(id)) touch();
+  }, [index, touch]);
+
+  const clear = useCallback(() => {
+    index.clear();
+    touch();
+  }, [index, touch]);
+
+  return {
+    version,
+    size: index.size(),
+    upsert,
+    upsertMany,
+    remove,
+    clear,
+    get: index.get,
+    queryBoundingBox: index.queryBoundingBox,
+    queryRadius: index.queryRadius,
+    queryNearest: index.queryNearest,
+  };
+}
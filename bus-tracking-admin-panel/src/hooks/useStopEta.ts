@@ -0,0 +1,276 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Coordinates, useDistance } from './useGeolocation';
+import { RouteShape, projectOntoShape } from './useRouteShape';
+
+export interface EtaStop {
+  stopId: string;
+  name?: string;
+  location: Coordinates;
+  // Scheduled arrival in milliseconds since epoch
+  scheduledArrival?: number;
+}
+
+export interface VehicleFix extends Coordinates {
+  timestamp: number;
+  // Reported speed in metres per second, if the feed provides one
+  speed?: number;
+}
+
+export interface StopEta {
+  stopId: string;
+  name?: string;
+  predictedArrival: number;
+  // Confidence band around the prediction
+  earliest: number;
+  latest: number;
+  distanceRemaining: number;
+  source: 'live' | 'schedule';
+}
+
+interface ProgressSample {
+  distanceAlong: number;
+  timestamp: number;
+  speed?: number;
+}
+
+interface UseStopEtaOptions {
+  shape: RouteShape | null;
+  stops: EtaStop[];
+  // Age in milliseconds after which live data is considered stale
+  staleAfter?: number;
+  // Seconds spent at each intermediate stop
+  dwellTime?: number;
+  // Lower bound in m/s so a stationary bus does not produce infinite ETAs
+  minSpeed?: number;
+  historySize?: number;
+  onUpdate?: (etas: StopEta[]) => void;
+}
+
+interface EtaState {
+  etas: StopEta[];
+  distanceAlong: number | null;
+  speed: number | null;
+  // Last observed schedule deviation in milliseconds (positive = late)
+  delay: number;
+  isStale: boolean;
+  lastUpdated: number | null;
+}
+
+// Weighted mean and spread of the speeds between consecutive samples
+function estimateSpeed(samples: ProgressSample[]): { mean: number; spread: number } | null {
+  const speeds: number[] = [];
+  for (let i = 0; i < samples.length - 1; i++) {
+    const newer = samples[i];
+    const older = samples[i + 1];
+    const elapsed = (newer.timestamp - older.timestamp) / 1000;
+    if (elapsed > 0) {
+      speeds.push(Math.max(0, newer.distanceAlong - older.distanceAlong) / elapsed);
+    }
+  }
+  if (speeds.length === 0) {
+    const reported = samples[0]?.speed;
+    return reported !== undefined ? { mean: reported, spread: reported * 0.25 } : null;
+  }
+
+  // Newer segments count for more
+  let weightSum = 0;
+  let mean = 0;
+  speeds.forEach((speed, i) => {
+    const weight = 1 / (i + 1);
+    weightSum += weight;
+    mean += speed * weight;
+  });
+  mean /= weightSum;
+
+  const variance = speeds.reduce(
+    (sum, speed, i) => sum + (speed - mean) ** 2 / (i + 1),
+    0
+  ) / weightSum;
+  return { mean, spread: Math.sqrt(variance) };
+}
+
+export function useStopEta({
+  shape,
+  stops,
+  staleAfter = 90 * 1000,
+  dwellTime = 20,
+  minSpeed = 1,
+  historySize = 10,
+  onUpdate,
+}: UseStopEtaOptions) {
+  const { calculateDistance } = useDistance({ unit: 'm' });
+  // Recent samples, newest first. Kept in a ref so fixes arriving before the next
+  // render still see the ones before them.
+  const historyRef = useRef<ProgressSample[]>([]);
+  // Whether schedule ETAs were published while waiting for the first fix
+  const schedulePublishedRef = useRef(false);
+  const [state, setState] = useState<EtaState>({
+    etas: [],
+    distanceAlong: null,
+    speed: null,
+    delay: 0,
+    isStale: true,
+    lastUpdated: null,
+  });
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  // Stops in order of their position along the shape
+  const orderedStops = useMemo(() => {
+    if (!shape) return [];
+    return stops
+      .map(stop => ({
+        stop,
+        distanceAlong: projectOntoShape(shape, stop.location)?.distanceAlong ?? 0,
+      }))
+      .sort((a, b) => a.distanceAlong - b.distanceAlong);
+  }, [shape, stops]);
+
+  // Schedule-based predictions shifted by the last known delay
+  const scheduleEtas = useCallback((fromDistance: number, delay: number, now: number): StopEta[] => {
+    return orderedStops
+      .filter(({ stop, distanceAlong }) =>
+        distanceAlong >= fromDistance && stop.scheduledArrival !== undefined
+      )
+      .map(({ stop, distanceAlong }) => {
+        const predictedArrival = Math.max(now, stop.scheduledArrival! + delay);
+        const margin = Math.max(60 * 1000, Math.abs(delay));
+        return {
+          stopId: stop.stopId,
+          name: stop.name,
+          predictedArrival,
+          earliest: Math.max(now, predictedArrival - margin),
+          latest: predictedArrival + margin,
+          distanceRemaining: distanceAlong - fromDistance,
+          source: 'schedule' as const,
+        };
+      });
+  }, [orderedStops]);
+
+  const publish = useCallback((updates: Partial<EtaState>) => {
+    stateRef.current = { ...stateRef.current, ...updates };
+    setState(prev => ({ ...prev, ...updates }));
+    if (updates.etas) {
+      onUpdate?.(updates.etas);
+    }
+  }, [onUpdate]);
+
+  // Feed a new vehicle fix; only stops ahead of the vehicle are recomputed
+  const updatePosition = useCallback((fix: VehicleFix) => {
+    if (!shape) return;
+
+    const previous = stateRef.current.distanceAlong;
+    const projection = projectOntoShape(shape, fix, {
+      nearDistance: previous ?? undefined,
+    }) ?? projectOntoShape(shape, fix);
+    if (!projection) return;
+
+    // Never move backwards along the route because of GPS noise
+    const history = historyRef.current;
+    const distanceAlong = previous !== null && history.length > 0
+      ? Math.max(previous, projection.distanceAlong)
+      : projection.distanceAlong;
+    const sample: ProgressSample = { distanceAlong, timestamp: fix.timestamp, speed: fix.speed };
+    historyRef.current = [sample, ...history].slice(0, historySize);
+
+    // A vehicle away from the shape (e.g. on a detour) still has to get back to it
+    const offShapeDistance = calculateDistance(fix, projection.snapped);
+
+    const estimate = estimateSpeed([sample, ...history]);
+    const speed = Math.max(minSpeed, estimate?.mean ?? minSpeed);
+    const spread = estimate?.spread ?? speed * 0.5;
+    const fastSpeed = speed + spread;
+    const slowSpeed = Math.max(minSpeed, speed - spread);
+
+    let delay = stateRef.current.delay;
+    const etas: StopEta[] = [];
+    let stopsBefore = 0;
+
+    orderedStops.forEach(({ stop, distanceAlong: stopDistance }) => {
+      if (stopDistance < distanceAlong) return;
+      const remaining = stopDistance - distanceAlong + offShapeDistance;
+
+      const dwell = stopsBefore * dwellTime;
+      const predictedArrival = fix.timestamp + (remaining / speed + dwell) * 1000;
+      etas.push({
+        stopId: stop.stopId,
+        name: stop.name,
+        predictedArrival,
+        earliest: fix.timestamp + (remaining / fastSpeed + dwell) * 1000,
+        latest: fix.timestamp + (remaining / slowSpeed + dwell) * 1000,
+        distanceRemaining: remaining,
+        source: 'live',
+      });
+
+      if (stopsBefore === 0 && stop.scheduledArrival !== undefined) {
+        delay = predictedArrival - stop.scheduledArrival;
+      }
+      stopsBefore++;
+    });
+
+    publish({
+      etas,
+      distanceAlong,
+      speed,
+      delay,
+      isStale: Date.now() - fix.timestamp > staleAfter,
+      lastUpdated: fix.timestamp,
+    });
+  }, [
+    shape,
+    historySize,
+    orderedStops,
+    dwellTime,
+    minSpeed,
+    staleAfter,
+    calculateDistance,
+    publish,
+  ]);
+
+  // Switch to schedule-based predictions once live data goes stale. Before the
+  // first fix they are published once per set of stops, not on every check.
+  useEffect(() => {
+    schedulePublishedRef.current = false;
+    const checkStale = () => {
+      const { lastUpdated, isStale, distanceAlong, delay } = stateRef.current;
+      const now = Date.now();
+      const stale = lastUpdated === null || now - lastUpdated > staleAfter;
+      if (stale && (!isStale || (lastUpdated === null && !schedulePublishedRef.current))) {
+        schedulePublishedRef.current = true;
+        publish({ etas: scheduleEtas(distanceAlong ?? 0, delay, now), isStale: true });
+      }
+    };
+
+    checkStale();
+    const intervalId = setInterval(checkStale, Math.min(staleAfter, 15000));
+    return () => clearInterval(intervalId);
+  }, [staleAfter, scheduleEtas, publish]);
+
+  const reset = useCallback(() => {
+    historyRef.current = [];
+    schedulePublishedRef.current = false;
+    const initial: EtaState = {
+      etas: [],
+      distanceAlong: null,
+      speed: null,
+      delay: 0,
+      isStale: true,
+      lastUpdated: null,
+    };
+    stateRef.current = initial;
+    setState(initial);
+  }, []);
+
+  const getEta = useCallback((stopId: string): StopEta | undefined => {
+    return state.etas.find(eta => eta.stopId === stopId);
+  }, [state.etas]);
+
+  return {
+    ...state,
+    updatePosition,
+    getEta,
+    reset,
+  };
+}
@@ -0,0 +1,334 @@
+'use client';
+
+import { useState, useCallback, useRef } from 'react';
+import { useIndexedDB, IndexedDBOptions } from './useIndexedDB';
+import { Coordinates, haversineDistance, toLocalMeters, useDistance } from './useGeolocation';
+import { VehicleFix } from './useStopEta';
+
+export interface TripStop {
+  stopId: string;
+  stopSequence: number;
+  location: Coordinates;
+}
+
+export interface TripAssignment {
+  tripId: string;
+  routeId?: string;
+  // GTFS service date (YYYYMMDD) the trip runs on
+  serviceDate?: string;
+  stops: TripStop[];
+}
+
+export interface StopEvent {
+  tripId: string;
+  stopSequence: number;
+  stopId: string;
+  routeId?: string;
+  // Part of the key, so empty rather than missing when unknown
+  serviceDate: string;
+  vehicleId: string;
+  arrivalTime: number;
+  departureTime: number;
+  dwellTime: number; // milliseconds
+  // True when times were estimated because fixes skipped past the stop
+  interpolated: boolean;
+}
+
+export interface StopVisit {
+  vehicleId: string;
+  tripId: string;
+  stopId: string;
+  stopSequence: number;
+  arrivalTime: number;
+}
+
+interface UseStopEventDetectionOptions {
+  // Distance in metres within which a vehicle counts as at the stop
+  radius?: number;
+  // How many stops ahead to look for arrivals, to tolerate missed stops
+  lookahead?: number;
+  onArrival?: (visit: StopVisit) => void;
+  onDeparture?: (event: StopEvent) => void;
+  onError?: (error: Error) => void;
+}
+
+interface TripTracker {
+  trip: TripAssignment;
+  nextIndex: number;
+  visit: { index: number; arrivalTime: number; lastInside: VehicleFix } | null;
+  lastFix: VehicleFix | null;
+}
+
+const STOP_EVENT_STORE = 'stopEvents';
+
+export const STOP_EVENTS_DATABASE: IndexedDBOptions = {
+  databaseName: 'stop-events',
+  version: 1,
+  stores: {
+    [STOP_EVENT_STORE]: {
+      keyPath: ['tripId', 'serviceDate', 'stopSequence'],
+      indexes: [
+        { name: 'vehicleId', keyPath: 'vehicleId' },
+        { name: 'stopArrival', keyPath: ['stopId', 'arrivalTime'] },
+        { name: 'routeArrival', keyPath: ['routeId', 'arrivalTime'] },
+        { name: 'arrivalTime', keyPath: 'arrivalTime' },
+      ],
+    },
+  },
+};
+
+// Time at which a straight move between two fixes crossed a distance from a stop
+function crossingTime(
+  from: VehicleFix,
+  to: VehicleFix,
+  stop: Coordinates,
+  radius: number
+): number {
+  const d0 = haversineDistance(stop, from, 'm');
+  const d1 = haversineDistance(stop, to, 'm');
+  const t = d0 === d1 ? 0 : Math.min(1, Math.max(0, (d0 - radius) / (d0 - d1)));
+  return from.timestamp + t * (to.timestamp - from.timestamp);
+}
+
+// Closest approach of a straight move to a stop, with the time it happened
+function closestApproach(
+  from: VehicleFix,
+  to: VehicleFix,
+  stop: Coordinates
+): { distance: number; time: number } {
+  const p = toLocalMeters(from, stop);
+  const end = toLocalMeters(from, to);
+  const lengthSquared = end.x * end.x + end.y * end.y;
+  const t = lengthSquared === 0
+    ? 0
+    : Math.max(0, Math.min(1, (p.x * end.x + p.y * end.y) / lengthSquared));
+  return {
+    distance: Math.hypot(p.x - t * end.x, p.y - t * end.y),
+    time: from.timestamp + t * (to.timestamp - from.timestamp),
+  };
+}
+
+// Spread the time between two fixes over skipped stops by straight-line distance
+export function interpolateStopTimes(
+  from: VehicleFix,
+  stops: Coordinates[],
+  toTime: number,
+  toPoint: Coordinates
+): number[] {
+  const points = [from, ...stops, toPoint];
+  const cumulative = [0];
+  for (let i = 1; i < points.length; i++) {
+    cumulative.push(cumulative[i - 1] + haversineDistance(points[i - 1], points[i], 'm'));
+  }
+  const total = cumulative[cumulative.length - 1];
+  const elapsed = toTime - from.timestamp;
+
+  return stops.map((_, i) =>
+    from.timestamp + (total === 0 ? 0 : (cumulative[i + 1] / total) * elapsed)
+  );
+}
+
+export function useStopEventDetection({
+  radius = 30,
+  lookahead = 5,
+  onArrival,
+  onDeparture,
+  onError,
+}: UseStopEventDetectionOptions = {}) {
+  const { db, put } = useIndexedDB(STOP_EVENTS_DATABASE);
+  const { isWithinRadius } = useDistance({ unit: 'm' });
+  const trackersRef = useRef(new Map<string, TripTracker>());
+  const [activeVisits, setActiveVisits] = useState<Record<string, StopVisit>>({});
+  const [recentEvents, setRecentEvents] = useState<StopEvent[]>([]);
+
+  const record = useCallback((event: StopEvent) => {
+    setRecentEvents(prev => [...prev, event].slice(-100));
+    onDeparture?.(event);
+    if (!db) return;
+
+    put<StopEvent>(STOP_EVENT_STORE, event).catch((err) => {
+      onError?.(err instanceof Error ? err : new Error('Failed to record stop event'));
+    });
+  }, [db, put, onDeparture, onError]);
+
+  const buildEvent = useCallback((
+    vehicleId: string,
+    trip: TripAssignment,
+    stop: TripStop,
+    arrivalTime: number,
+    departureTime: number,
+    interpolated: boolean
+  ): StopEvent => ({
+    tripId: trip.tripId,
+    stopSequence: stop.stopSequence,
+    stopId: stop.stopId,
+    routeId: trip.routeId,
+    serviceDate: trip.serviceDate ?? '',
+    vehicleId,
+    arrivalTime,
+    departureTime,
+    dwellTime: Math.max(0, departureTime - arrivalTime),
+    interpolated,
+  }), []);
+
+  const setVisit = useCallback((vehicleId: string, visit: StopVisit | null) => {
+    setActiveVisits((prev) => {
+      if (!visit) {
+        if (!prev[vehicleId]) return prev;
+        const { [vehicleId]: _left, ...rest } = prev;
+        return rest;
+      }
+      return { ...prev, [vehicleId]: visit };
+    });
+  }, []);
+
+  // Close an open visit, e.g. when the vehicle changes trip or goes silent
+  const closeVisit = useCallback((vehicleId: string, tracker: TripTracker) => {
+    if (!tracker.visit) return;
+    const stop = tracker.trip.stops[tracker.visit.index];
+    record(buildEvent(
+      vehicleId,
+      tracker.trip,
+      stop,
+      tracker.visit.arrivalTime,
+      tracker.visit.lastInside.timestamp,
+      false
+    ));
+    tracker.visit = null;
+    setVisit(vehicleId, null);
+  }, [record, buildEvent, setVisit]);
+
+  const updatePosition = useCallback((
+    vehicleId: string,
+    trip: TripAssignment,
+    fix: VehicleFix
+  ) => {
+    let tracker = trackersRef.current.get(vehicleId);
+    // The same trip on the next service day starts over from its first stop
+    if (!tracker || tracker.trip.tripId !== trip.tripId || tracker.trip.serviceDate !== trip.serviceDate) {
+      if (tracker) closeVisit(vehicleId, tracker);
+      tracker = { trip, nextIndex: 0, visit: null, lastFix: null };
+      trackersRef.current.set(vehicleId, tracker);
+    }
+
+    const { stops } = tracker.trip;
+    const lastFix = tracker.lastFix;
+    tracker.lastFix = fix;
+
+    // Still at the stop, or just left it
+    if (tracker.visit) {
+      const stop = stops[tracker.visit.index];
+      if (isWithinRadius(stop.location, fix, radius)) {
+        tracker.visit.lastInside = fix;
+        return;
+      }
+
+      const departureTime = crossingTime(tracker.visit.lastInside, fix, stop.location, radius);
+      record(buildEvent(vehicleId, tracker.trip, stop, tracker.visit.arrivalTime, departureTime, false));
+      tracker.visit = null;
+      setVisit(vehicleId, null);
+    }
+
+    const lastIndex = Math.min(stops.length, tracker.nextIndex + lookahead);
+    for (let index = tracker.nextIndex; index < lastIndex; index++) {
+      const stop = stops[index];
+      const inside = isWithinRadius(stop.location, fix, radius);
+      const approach = lastFix && !inside ? closestApproach(lastFix, fix, stop.location) : null;
+      const passedThrough = approach !== null && approach.distance <= radius;
+      if (!inside && !passedThrough) continue;
+
+      // Stops skipped on the way here get times interpolated from the last fix
+      const skipped = stops.slice(tracker.nextIndex, index);
+      if (lastFix && skipped.length > 0) {
+        const arrivalTime = inside
+          ? crossingTime(lastFix, fix, stop.location, radius)
+          : approach!.time;
+        const times = interpolateStopTimes(
+          lastFix,
+          skipped.map(s => s.location),
+          arrivalTime,
+          stop.location
+        );
+        skipped.forEach((skippedStop, i) => {
+          record(buildEvent(vehicleId, tracker!.trip, skippedStop, times[i], times[i], true));
+        });
+      }
+
+      tracker.nextIndex = index + 1;
+
+      if (passedThrough) {
+        // Drove through between two fixes without a fix inside the radius
+        record(buildEvent(vehicleId, tracker.trip, stop, approach!.time, approach!.time, true));
+        continue;
+      }
+
+      const arrivalTime = lastFix ? crossingTime(lastFix, fix, stop.location, radius) : fix.timestamp;
+      tracker.visit = { index, arrivalTime, lastInside: fix };
+      const visit: StopVisit = {
+        vehicleId,
+        tripId: trip.tripId,
+        stopId: stop.stopId,
+        stopSequence: stop.stopSequence,
+        arrivalTime,
+      };
+      setVisit(vehicleId, visit);
+      onArrival?.(visit);
+      break;
+    }
+  }, [radius, lookahead, isWithinRadius, record, buildEvent, setVisit, closeVisit, onArrival]);
+
+  const resetVehicle = useCallback((vehicleId: string) => {
+    const tracker = trackersRef.current.get(vehicleId);
+    if (tracker) closeVisit(vehicleId, tracker);
+    trackersRef.current.delete(vehicleId);
+  }, [closeVisit]);
+
+  return {
+    activeVisits,
+    recentEvents,
+    updatePosition,
+    resetVehicle,
+  };
+}
+
+// Helper hook for reports reading recorded stop events
+export function useStopEventHistory() {
+  const { db, isLoading, error, query } = useIndexedDB(STOP_EVENTS_DATABASE);
+
+  const getEventsForTrip = useCallback((tripId: string, serviceDate = '') => {
+    return query<StopEvent>(STOP_EVENT_STORE, {
+      query: IDBKeyRange.bound([tripId, serviceDate, -Infinity], [tripId, serviceDate, Infinity]),
+    });
+  }, [query]);
+
+  const getEventsForStop = useCallback((stopId: string, from: number, to: number) => {
+    return query<StopEvent>(STOP_EVENT_STORE, {
+      index: 'stopArrival',
+      query: IDBKeyRange.bound([stopId, from], [stopId, to]),
+    });
+  }, [query]);
+
+  const getEventsForRoute = useCallback((routeId: string, from: number, to: number) => {
+    return query<StopEvent>(STOP_EVENT_STORE, {
+      index: 'routeArrival',
+      query: IDBKeyRange.bound([routeId, from], [routeId, to]),
+    });
+  }, [query]);
+
+  const getEventsBetween = useCallback((from: number, to: number) => {
+    return query<StopEvent>(STOP_EVENT_STORE, {
+      index: 'arrivalTime',
+      query: IDBKeyRange.bound(from, to),
+    });
+  }, [query]);
+
+  return {
+    isReady: !!db,
+    isLoading,
+    error,
+    getEventsForTrip,
+    getEventsForStop,
+    getEventsForRoute,
+    getEventsBetween,
+  };
+}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { useNetwork } from './useNetwork';
+import { tenantKey } from '@/lib/tenant';
 
 interface StorageOptions<T> {
   key: string;
@@ -53,7 +54,7 @@ const decrypt = (text: string, key: string): string => {
 };
 
 export function useStorage<T>({
-  key,
+  key: baseKey,
   initialValue,
   storage = typeof window !== 'undefined' ? localStorage : null,
   serialize = JSON.stringify,
@@ -65,6 +66,7 @@ export function useStorage<T>({
   syncToServer,
   persistOnUnmount = true,
 }: StorageOptions<T>) {
+  const key = tenantKey(baseKey);
   const [state, setState] = useState<T>(() => {
     if (typeof window === 'undefined' || !storage) {
       return initialValue as T;
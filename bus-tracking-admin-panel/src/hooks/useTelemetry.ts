@@ -3,6 +3,7 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useNetwork } from './useNetwork';
 import { useLocalStorage } from './useLocalStorage';
+import { tenantHeaders } from '@/lib/tenant';
 
 type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 
@@ -104,9 +105,9 @@ export function useTelemetry({
       const processedEvents = transform ? transform(batch) : batch;
       const response = await fetch(endpoint, {
         method: 'POST',
-        headers: {
+        headers: tenantHeaders({
           'Content-Type': 'application/json',
-        },
+        }),
         body: JSON.stringify(processedEvents),
       });
 
@@ -0,0 +1,257 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useIndexedDB, IndexedDBOptions } from './useIndexedDB';
+import { useLocationHistory, initialBearing } from './useGeolocation';
+import { useAnimationFrame } from './useAnimation';
+
+export interface RecordedPosition {
+  vehicleId: string;
+  timestamp: number;
+  latitude: number;
+  longitude: number;
+  speed?: number;
+  bearing?: number;
+  tripId?: string;
+}
+
+export interface ReplayFrame {
+  latitude: number;
+  longitude: number;
+  bearing: number | null;
+  speed: number | null;
+  timestamp: number;
+  // True when the frame lies between two recorded fixes
+  interpolated: boolean;
+}
+
+interface UsePositionRecorderOptions {
+  // Number of recent fixes kept in memory for live trails
+  maxEntries?: number;
+  onError?: (error: Error) => void;
+}
+
+interface UseTripReplayOptions {
+  vehicleId: string;
+  from: number;
+  to: number;
+  initialSpeed?: number;
+  // Gap in milliseconds beyond which positions are not interpolated
+  maxGap?: number;
+  onComplete?: () => void;
+}
+
+const POSITION_STORE = 'positions';
+const MIN_SPEED = 1;
+const MAX_SPEED = 60;
+
+export const POSITION_HISTORY_DATABASE: IndexedDBOptions = {
+  databaseName: 'position-history',
+  version: 1,
+  stores: {
+    [POSITION_STORE]: {
+      keyPath: ['vehicleId', 'timestamp'],
+      indexes: [
+        { name: 'timestamp', keyPath: 'timestamp' },
+        { name: 'tripId', keyPath: 'tripId' },
+      ],
+    },
+  },
+};
+
+// Interpolate between the recorded positions surrounding a point in time
+export function interpolatePosition(
+  positions: RecordedPosition[],
+  time: number,
+  maxGap = 5 * 60 * 1000
+): ReplayFrame | null {
+  if (positions.length === 0) return null;
+
+  // Binary search for the last position at or before the requested time
+  let low = 0;
+  let high = positions.length - 1;
+  if (time <= positions[0].timestamp) high = 0;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (positions[mid].timestamp <= time) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  const before = positions[low];
+  const after = positions[low + 1];
+
+  if (!after || time <= before.timestamp || after.timestamp - before.timestamp > maxGap) {
+    return {
+      latitude: before.latitude,
+      longitude: before.longitude,
+      bearing: before.bearing ?? null,
+      speed: before.speed ?? null,
+      timestamp: time,
+      interpolated: false,
+    };
+  }
+
+  const t = (time - before.timestamp) / (after.timestamp - before.timestamp);
+  const moved = before.latitude !== after.latitude || before.longitude !== after.longitude;
+
+  return {
+    latitude: before.latitude + t * (after.latitude - before.latitude),
+    longitude: before.longitude + t * (after.longitude - before.longitude),
+    bearing: moved ? initialBearing(before, after) : before.bearing ?? null,
+    speed: before.speed !== undefined && after.speed !== undefined
+      ? before.speed + t * (after.speed - before.speed)
+      : before.speed ?? null,
+    timestamp: time,
+    interpolated: true,
+  };
+}
+
+// Helper hook for writing vehicle positions to the replay store
+export function usePositionRecorder({
+  maxEntries = 10,
+  onError,
+}: UsePositionRecorderOptions = {}) {
+  const { db, put, putAll } = useIndexedDB(POSITION_HISTORY_DATABASE);
+  const { history, addLocation, clearHistory } = useLocationHistory<RecordedPosition>({
+    maxEntries,
+  });
+
+  const record = useCallback(async (position: RecordedPosition) => {
+    addLocation(position);
+    if (!db) return;
+
+    try {
+      await put<RecordedPosition>(POSITION_STORE, position);
+    } catch (err) {
+      onError?.(err instanceof Error ? err : new Error('Failed to record position'));
+    }
+  }, [db, put, addLocation, onError]);
+
+  const recordMany = useCallback(async (positions: RecordedPosition[]) => {
+    positions.forEach(addLocation);
+    if (!db) return;
+
+    try {
+      await putAll<RecordedPosition>(POSITION_STORE, positions);
+    } catch (err) {
+      onError?.(err instanceof Error ? err : new Error('Failed to record positions'));
+    }
+  }, [db, putAll, addLocation, onError]);
+
+  return {
+    recent: history,
+    record,
+    recordMany,
+    clearRecent: clearHistory,
+  };
+}
+
+export function useTripReplay({
+  vehicleId,
+  from,
+  to,
+  initialSpeed = 1,
+  maxGap,
+  onComplete,
+}: UseTripReplayOptions) {
+  const { db, query } = useIndexedDB(POSITION_HISTORY_DATABASE);
+  const [positions, setPositions] = useState<RecordedPosition[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeedState] = useState(initialSpeed);
+  const [currentTime, setCurrentTime] = useState(from);
+  const [frame, setFrame] = useState<ReplayFrame | null>(null);
+
+  // The frame loop reads and advances time without re-subscribing
+  const currentTimeRef = useRef(from);
+
+  // Load the stored positions for the selected window
+  useEffect(() => {
+    if (!db) return;
+
+    setIsLoading(true);
+    setIsPlaying(false);
+    query<RecordedPosition>(POSITION_STORE, {
+      query: IDBKeyRange.bound([vehicleId, from], [vehicleId, to]),
+    })
+      .then((results) => {
+        setPositions(results);
+        setError(null);
+        currentTimeRef.current = from;
+        setCurrentTime(from);
+        setFrame(interpolatePosition(results, from, maxGap));
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err : new Error('Failed to load positions'));
+      })
+      .finally(() => setIsLoading(false));
+  }, [db, query, vehicleId, from, to, maxGap]);
+
+  const seek = useCallback((time: number) => {
+    const clamped = Math.min(Math.max(time, from), to);
+    currentTimeRef.current = clamped;
+    setCurrentTime(clamped);
+    setFrame(interpolatePosition(positions, clamped, maxGap));
+  }, [from, to, positions, maxGap]);
+
+  useAnimationFrame((deltaTime) => {
+    // Avoid a jump when the tab was in the background
+    const next = currentTimeRef.current + Math.min(deltaTime, 250) * speed;
+
+    if (next >= to) {
+      seek(to);
+      setIsPlaying(false);
+      onComplete?.();
+      return;
+    }
+
+    seek(next);
+  }, isPlaying && positions.length > 0);
+
+  const play = useCallback(() => {
+    if (currentTimeRef.current >= to) {
+      seek(from);
+    }
+    setIsPlaying(true);
+  }, [from, to, seek]);
+
+  const pause = useCallback(() => {
+    setIsPlaying(false);
+  }, []);
+
+  const setSpeed = useCallback((value: number) => {
+    setSpeedState(Math.min(Math.max(value, MIN_SPEED), MAX_SPEED));
+  }, []);
+
+  // Jump between recorded fixes, useful for stepping through an incident
+  const stepToFix = useCallback((direction: 1 | -1) => {
+    const time = currentTimeRef.current;
+    const target = direction > 0
+      ? positions.find(position => position.timestamp > time)
+      : [...positions].reverse().find(position => position.timestamp < time);
+    if (target) {
+      seek(target.timestamp);
+    }
+  }, [positions, seek]);
+
+  return {
+    positions,
+    frame,
+    currentTime,
+    progress: to > from ? (currentTime - from) / (to - from) : 0,
+    isPlaying,
+    isLoading,
+    error,
+    speed,
+    play,
+    pause,
+    seek,
+    setSpeed,
+    stepForward: () => stepToFix(1),
+    stepBackward: () => stepToFix(-1),
+  };
+}
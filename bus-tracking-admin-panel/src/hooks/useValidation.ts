@@ -104,6 +104,29 @@ export const validationRules = {
   }),
 };
 
+// Validate values against a schema outside of a form; returns the first failing
+// message per field
+export function validateValues<T extends Record<string, any>>(
+  values: T,
+  schema: ValidationSchema<T>
+): Partial<Record<keyof T, string>> {
+  const errors: Partial<Record<keyof T, string>> = {};
+
+  Object.keys(schema).forEach((field) => {
+    const fieldRules = schema[field as keyof T];
+    if (!fieldRules) return;
+
+    for (const rule of fieldRules) {
+      if (!rule.validate(values[field as keyof T], values)) {
+        errors[field as keyof T] = rule.message;
+        break;
+      }
+    }
+  });
+
+  return errors;
+}
+
 export function useValidation<T extends Record<string, any>>({
   initialValues,
   schema,
@@ -136,24 +159,9 @@ export function useValidation<T extends Record<string, any>>({
 
   // Validate all fields
   const validate = useCallback((): boolean => {
-    const newErrors: Partial<Record<keyof T, string>> = {};
-    let isValid = true;
-
-    Object.keys(schema).forEach((field) => {
-      const fieldRules = schema[field as keyof T];
-      if (!fieldRules) return;
-
-      for (const rule of fieldRules) {
-        if (!rule.validate(values[field as keyof T], values)) {
-          newErrors[field as keyof T] = rule.message;
-          isValid = false;
-          break;
-        }
-      }
-    });
-
+    const newErrors = validateValues(values, schema);
     setErrors(newErrors);
-    return isValid;
+    return Object.keys(newErrors).length === 0;
   }, [values, schema]);
 
   // Handle field change
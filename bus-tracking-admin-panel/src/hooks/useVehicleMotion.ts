@@ -0,0 +1,191 @@
+'use client';
+
+import { useState, useCallback, useRef } from 'react';
+import { useAnimationFrame, stepSpring } from './useAnimation';
+import { useReducedMotion } from './useMedia';
+import { Coordinates, fromLocalMeters, haversineDistance, initialBearing } from './useGeolocation';
+import { RouteShape, buildRouteShape, pointAlongShape, projectOntoShape } from './useRouteShape';
+
+export interface MotionFix extends Coordinates {
+  timestamp: number;
+  speed?: number; // metres per second
+  bearing?: number;
+}
+
+export interface AnimatedPosition extends Coordinates {
+  vehicleId: string;
+  bearing: number | null;
+  // True while the position is extrapolated past the last fix
+  isDeadReckoning: boolean;
+}
+
+interface UseVehicleMotionOptions {
+  // How long in milliseconds to keep extrapolating after the last fix
+  maxDeadReckoning?: number;
+  // Jumps larger than this many metres snap instead of animating
+  snapDistance?: number;
+  stiffness?: number;
+  damping?: number;
+  // Called once per animation frame with every vehicle's displayed position
+  onFrame?: (positions: Map<string, AnimatedPosition>) => void;
+}
+
+interface VehicleTrack {
+  shape: RouteShape;
+  // Whether the shape is the assigned route or a straight line built from the fix
+  isRouteShape: boolean;
+  fixDistance: number;
+  fixTime: number;
+  speed: number;
+  displayed: { value: number; velocity: number };
+  position: AnimatedPosition;
+}
+
+const STRAIGHT_LINE_LENGTH = 2000;
+
+// Straight track through the fix along its bearing, used when no route shape is known.
+// Without a bearing or movement from the last position the heading is unknown, so
+// the track ends at the fix and nothing is extrapolated.
+function buildStraightTrack(from: Coordinates, fix: MotionFix): RouteShape {
+  const moved = haversineDistance(from, fix, 'm') > 0.5;
+  const bearing = fix.bearing ?? (moved ? initialBearing(from, fix) : null);
+  if (bearing === null) return buildRouteShape([from, fix]);
+
+  const radians = (bearing * Math.PI) / 180;
+  const ahead = fromLocalMeters(fix, {
+    x: Math.sin(radians) * STRAIGHT_LINE_LENGTH,
+    y: Math.cos(radians) * STRAIGHT_LINE_LENGTH,
+  });
+  return buildRouteShape([from, fix, ahead]);
+}
+
+export function useVehicleMotion({
+  maxDeadReckoning = 30000,
+  snapDistance = 500,
+  stiffness = 120,
+  damping = 24,
+  onFrame,
+}: UseVehicleMotionOptions = {}) {
+  const prefersReducedMotion = useReducedMotion();
+  const tracksRef = useRef(new Map<string, VehicleTrack>());
+  const positionsRef = useRef(new Map<string, AnimatedPosition>());
+  const [vehicleCount, setVehicleCount] = useState(0);
+
+  const updateVehicle = useCallback((
+    vehicleId: string,
+    fix: MotionFix,
+    shape?: RouteShape | null
+  ) => {
+    const previous = tracksRef.current.get(vehicleId);
+    const current = previous?.position;
+    const speed = fix.speed ?? previous?.speed ?? 0;
+
+    const initial: AnimatedPosition = {
+      vehicleId,
+      latitude: fix.latitude,
+      longitude: fix.longitude,
+      bearing: fix.bearing ?? null,
+      isDeadReckoning: false,
+    };
+    let track: VehicleTrack;
+    const jumped = !current || haversineDistance(current, fix, 'm') > snapDistance;
+
+    if (shape && shape.points.length > 1) {
+      const projection = projectOntoShape(shape, fix, {
+        nearDistance: previous?.isRouteShape ? previous.fixDistance : undefined,
+      }) ?? projectOntoShape(shape, fix);
+      const keepDisplayed = !jumped && previous?.isRouteShape && previous.shape === shape;
+      const fixDistance = projection?.distanceAlong ?? 0;
+
+      track = {
+        shape,
+        isRouteShape: true,
+        fixDistance,
+        fixTime: fix.timestamp,
+        speed,
+        displayed: keepDisplayed ? previous!.displayed : { value: fixDistance, velocity: 0 },
+        position: current ?? initial,
+      };
+    } else {
+      const from = jumped || !current ? fix : current;
+      const straight = buildStraightTrack(from, fix);
+      track = {
+        shape: straight,
+        isRouteShape: false,
+        fixDistance: straight.cumulative[1],
+        fixTime: fix.timestamp,
+        speed,
+        displayed: { value: 0, velocity: 0 },
+        position: current ?? initial,
+      };
+    }
+
+    // Without animation, show the fix itself
+    if (prefersReducedMotion) {
+      track.displayed = { value: track.fixDistance, velocity: 0 };
+      track.position = initial;
+      positionsRef.current.set(vehicleId, track.position);
+    }
+
+    tracksRef.current.set(vehicleId, track);
+    setVehicleCount(tracksRef.current.size);
+
+    if (prefersReducedMotion) {
+      onFrame?.(positionsRef.current);
+    }
+  }, [snapDistance, prefersReducedMotion, onFrame]);
+
+  const removeVehicle = useCallback((vehicleId: string) => {
+    tracksRef.current.delete(vehicleId);
+    positionsRef.current.delete(vehicleId);
+    setVehicleCount(tracksRef.current.size);
+  }, []);
+
+  // One loop advances every vehicle
+  useAnimationFrame((deltaTime) => {
+    const now = Date.now();
+    const step = Math.min(deltaTime / 1000, 0.1);
+
+    tracksRef.current.forEach((track, vehicleId) => {
+      const sinceFix = Math.max(0, now - track.fixTime);
+      const extrapolation = Math.min(sinceFix, maxDeadReckoning) / 1000;
+      // Hold position rather than sliding backwards when a fix lands behind the
+      // marker; the marker waits until extrapolation from the fix catches up
+      const target = Math.max(
+        Math.min(track.fixDistance + track.speed * extrapolation, track.shape.length),
+        track.isRouteShape ? track.displayed.value : 0
+      );
+
+      track.displayed = stepSpring(track.displayed, target, step, { stiffness, damping });
+      const point = pointAlongShape(track.shape, track.displayed.value);
+      if (!point) return;
+
+      const bearing = haversineDistance(track.position, point, 'm') > 0.5
+        ? initialBearing(track.position, point)
+        : track.position.bearing;
+
+      track.position = {
+        vehicleId,
+        latitude: point.latitude,
+        longitude: point.longitude,
+        bearing,
+        isDeadReckoning: sinceFix > 0 && track.speed > 0 && track.displayed.value > track.fixDistance,
+      };
+      positionsRef.current.set(vehicleId, track.position);
+    });
+
+    onFrame?.(positionsRef.current);
+  }, !prefersReducedMotion && vehicleCount > 0);
+
+  const getPosition = useCallback((vehicleId: string): AnimatedPosition | undefined => {
+    return positionsRef.current.get(vehicleId);
+  }, []);
+
+  return {
+    vehicleCount,
+    updateVehicle,
+    removeVehicle,
+    getPosition,
+    positions: positionsRef.current,
+  };
+}
@@ -3,16 +3,39 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useNetwork } from './useNetwork';
 
-interface WebSocketOptions {
+export interface WebSocketOptions {
   url: string;
   protocols?: string | string[];
   reconnectAttempts?: number;
+  // Base delay in milliseconds; doubles with each attempt up to maxReconnectInterval
   reconnectInterval?: number;
+  maxReconnectInterval?: number;
+  backoffMultiplier?: number;
+  // Randomise each delay between zero and the backoff so clients do not reconnect in step
+  jitter?: boolean;
+  // Keep retrying forever instead of stopping after reconnectAttempts
+  alwaysReconnect?: boolean;
+  // Hold connection attempts, e.g. while the session token is being refreshed
+  pauseReconnect?: boolean;
   heartbeatInterval?: number;
   heartbeatMessage?: string | object;
+  binaryType?: BinaryType;
+  decodeBinary?: (data: ArrayBuffer) => any;
+  // Track server-assigned sequence numbers and recover missed messages
+  sequenced?: boolean;
+  getSequence?: (data: any) => number | undefined;
+  resumeMessage?: (lastSequence: number) => any;
+  snapshotMessage?: any;
+  // Milliseconds to wait for a resume before falling back to a snapshot
+  resyncTimeout?: number;
+  // A sequence this far behind the last one, or a new epoch, means the server
+  // restarted its numbering; tracking resets and a snapshot is requested
+  sequenceResetThreshold?: number;
+  getEpoch?: (data: any) => string | number | undefined;
+  onGap?: (expected: number, received: number) => void;
   onOpen?: (event: WebSocketEventMap['open']) => void;
   onClose?: (event: WebSocketEventMap['close']) => void;
-  onMessage?: (event: WebSocketEventMap['message']) => void;
+  onMessage?: (event: WebSocketEventMap['message'], data: any) => void;
   onError?: (event: WebSocketEventMap['error']) => void;
   onReconnect?: () => void;
 }
@@ -23,15 +46,59 @@ interface WebSocketState {
   error: Error | null;
   lastMessage: any;
   reconnectCount: number;
+  // When the next reconnect attempt is scheduled, if one is pending
+  nextReconnectAt: number | null;
+  resyncing: boolean;
 }
 
+interface ReconnectDelayOptions {
+  baseDelay: number;
+  maxDelay: number;
+  multiplier?: number;
+  jitter?: boolean;
+}
+
+// Exponential backoff with optional full jitter
+export function getReconnectDelay(
+  attempt: number,
+  { baseDelay, maxDelay, multiplier = 2, jitter = true }: ReconnectDelayOptions
+) {
+  const ceiling = Math.min(maxDelay, baseDelay * Math.pow(multiplier, attempt));
+  return jitter ? Math.random() * ceiling : ceiling;
+}
+
+const defaultGetSequence = (data: any) =>
+  typeof data?.seq === 'number' ? data.seq : undefined;
+
+const defaultGetEpoch = (data: any) =>
+  typeof data?.epoch === 'string' || typeof data?.epoch === 'number' ? data.epoch : undefined;
+
+const defaultResumeMessage = (lastSequence: number) => ({ type: 'resume', lastSequence });
+
+const DEFAULT_SNAPSHOT_MESSAGE = { type: 'snapshot_request' };
+
 export function useWebSocket({
   url,
   protocols,
   reconnectAttempts = 5,
   reconnectInterval = 3000,
+  maxReconnectInterval = 60000,
+  backoffMultiplier = 2,
+  jitter = true,
+  alwaysReconnect = false,
+  pauseReconnect = false,
   heartbeatInterval = 30000,
   heartbeatMessage = 'ping',
+  binaryType = 'blob',
+  decodeBinary,
+  sequenced = false,
+  getSequence = defaultGetSequence,
+  resumeMessage = defaultResumeMessage,
+  snapshotMessage = DEFAULT_SNAPSHOT_MESSAGE,
+  resyncTimeout = 10000,
+  sequenceResetThreshold = 1000,
+  getEpoch = defaultGetEpoch,
+  onGap,
   onOpen,
   onClose,
   onMessage,
@@ -44,32 +111,204 @@ export function useWebSocket({
     error: null,
     lastMessage: null,
     reconnectCount: 0,
+    nextReconnectAt: null,
+    resyncing: false,
   });
+  const [reconnectIn, setReconnectIn] = useState<number | null>(null);
 
   const { online } = useNetwork();
   const wsRef = useRef<WebSocket | null>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout>();
   const heartbeatIntervalRef = useRef<NodeJS.Timeout>();
   const reconnectingRef = useRef(false);
+  const reconnectCountRef = useRef(0);
+  const closedManuallyRef = useRef(false);
+  const pauseReconnectRef = useRef(pauseReconnect);
+  pauseReconnectRef.current = pauseReconnect;
+  const deferredConnectRef = useRef(false);
+
+  // Settings and callbacks are read through a ref: every message re-renders the
+  // caller, and recreating connect from fresh inline callbacks would reopen the socket
+  const options = {
+    protocols,
+    reconnectAttempts,
+    reconnectInterval,
+    maxReconnectInterval,
+    backoffMultiplier,
+    jitter,
+    alwaysReconnect,
+    heartbeatInterval,
+    heartbeatMessage,
+    binaryType,
+    decodeBinary,
+    sequenced,
+    getSequence,
+    getEpoch,
+    resumeMessage,
+    snapshotMessage,
+    resyncTimeout,
+    sequenceResetThreshold,
+    onGap,
+    onOpen,
+    onClose,
+    onMessage,
+    onError,
+    onReconnect,
+  };
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  // Inline protocol arrays would otherwise count as a new connection every render
+  const protocolsKey = Array.isArray(protocols) ? protocols.join(',') : protocols;
+
   const messageQueueRef = useRef<any[]>([]);
+  const lastSequenceRef = useRef<number | null>(null);
+  const epochRef = useRef<string | number | undefined>(undefined);
+  const resyncingRef = useRef(false);
+  const resyncTimeoutRef = useRef<NodeJS.Timeout>();
+
+  // Send message
+  const send = useCallback((message: any) => {
+    if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) {
+      messageQueueRef.current.push(message);
+      return false;
+    }
+
+    try {
+      const data = typeof message === 'string' ? message : JSON.stringify(message);
+      wsRef.current.send(data);
+      return true;
+    } catch (error) {
+      setState(prev => ({
+        ...prev,
+        error: error instanceof Error ? error : new Error('Failed to send message'),
+      }));
+      return false;
+    }
+  }, []);
+
+  const setResyncing = useCallback((resyncing: boolean) => {
+    resyncingRef.current = resyncing;
+    clearTimeout(resyncTimeoutRef.current);
+    setState(prev => (prev.resyncing === resyncing ? prev : { ...prev, resyncing }));
+  }, []);
+
+  // Ask for the full current state when missed messages cannot be replayed, and
+  // ask again if it never completes; later gaps are ignored while resyncing
+  const requestSnapshot = useCallback(() => {
+    const request = () => {
+      const { snapshotMessage, resyncTimeout } = optionsRef.current;
+      setResyncing(true);
+      send(snapshotMessage);
+      resyncTimeoutRef.current = setTimeout(request, resyncTimeout);
+    };
+    request();
+  }, [send, setResyncing]);
+
+  // Ask the server to replay everything after the last processed sequence
+  const requestResume = useCallback(() => {
+    if (lastSequenceRef.current === null) {
+      requestSnapshot();
+      return;
+    }
+
+    const { resumeMessage, resyncTimeout } = optionsRef.current;
+    setResyncing(true);
+    send(resumeMessage(lastSequenceRef.current));
+    resyncTimeoutRef.current = setTimeout(requestSnapshot, resyncTimeout);
+  }, [send, requestSnapshot, setResyncing]);
+
+  // Returns false for duplicates, out-of-order messages and resync control messages
+  const handleSequence = useCallback((data: any) => {
+    if (data?.type === 'resume_failed') {
+      clearTimeout(resyncTimeoutRef.current);
+      requestSnapshot();
+      return false;
+    }
+
+    if (data?.type === 'resume_complete' || data?.type === 'snapshot_complete') {
+      if (typeof data.seq === 'number') {
+        lastSequenceRef.current = data.type === 'snapshot_complete'
+          ? data.seq
+          : Math.max(lastSequenceRef.current ?? data.seq, data.seq);
+      }
+      setResyncing(false);
+      return false;
+    }
+
+    const { getSequence, getEpoch, sequenceResetThreshold, onGap } = optionsRef.current;
+    const sequence = getSequence(data);
+    if (sequence === undefined) return true;
+
+    // The server restarted its numbering: old positions mean nothing, start over
+    const epoch = getEpoch(data);
+    const last = lastSequenceRef.current;
+    const newEpoch = epoch !== undefined && epochRef.current !== undefined && epoch !== epochRef.current;
+    if (epoch !== undefined) epochRef.current = epoch;
+    if (newEpoch || (last !== null && last - sequence > sequenceResetThreshold)) {
+      lastSequenceRef.current = null;
+      requestSnapshot();
+      return false;
+    }
+
+    if (last === null || sequence === last + 1) {
+      lastSequenceRef.current = sequence;
+      return true;
+    }
+    // Duplicates replayed by a resume
+    if (sequence <= last) return false;
+
+    // Drop the message; the resume replays it in order
+    if (!resyncingRef.current) {
+      onGap?.(last + 1, sequence);
+      requestResume();
+    }
+    return false;
+  }, [requestResume, requestSnapshot, setResyncing]);
 
   // Create WebSocket connection
   const connect = useCallback(() => {
-    if (!online || wsRef.current?.readyState === WebSocket.OPEN) return;
+    if (
+      !online ||
+      wsRef.current?.readyState === WebSocket.OPEN ||
+      wsRef.current?.readyState === WebSocket.CONNECTING
+    ) {
+      return;
+    }
+
+    closedManuallyRef.current = false;
+
+    // Connecting with credentials that are about to be replaced would only fail
+    if (pauseReconnectRef.current) {
+      deferredConnectRef.current = true;
+      return;
+    }
+
+    const { protocols, binaryType } = optionsRef.current;
 
     try {
-      wsRef.current = new WebSocket(url, protocols);
+      const socket = new WebSocket(url, protocols);
+      wsRef.current = socket;
+      wsRef.current.binaryType = binaryType;
       setState(prev => ({ ...prev, readyState: WebSocket.CONNECTING }));
 
       wsRef.current.onopen = (event) => {
+        const { sequenced, heartbeatInterval, heartbeatMessage, onOpen } = optionsRef.current;
+        reconnectCountRef.current = 0;
         setState(prev => ({
           ...prev,
           connected: true,
           error: null,
           readyState: WebSocket.OPEN,
           reconnectCount: 0,
+          nextReconnectAt: null,
         }));
 
+        // Catch up on missed messages before anything queued goes out
+        if (sequenced) {
+          requestResume();
+        }
+
         // Send queued messages
         while (messageQueueRef.current.length > 0) {
           const message = messageQueueRef.current.shift();
@@ -87,6 +326,16 @@ export function useWebSocket({
       };
 
       wsRef.current.onclose = (event) => {
+        const {
+          alwaysReconnect,
+          reconnectAttempts,
+          reconnectInterval,
+          maxReconnectInterval,
+          backoffMultiplier,
+          jitter,
+          onReconnect,
+          onClose,
+        } = optionsRef.current;
         setState(prev => ({
           ...prev,
           connected: false,
@@ -94,18 +343,33 @@ export function useWebSocket({
         }));
 
         clearInterval(heartbeatIntervalRef.current);
+        clearTimeout(resyncTimeoutRef.current);
+
+        // Sockets replaced by a newer connection or closed on purpose stay down
+        const superseded = wsRef.current !== null && wsRef.current !== socket;
+        const canRetry = alwaysReconnect || reconnectCountRef.current < reconnectAttempts;
+
+        if (!superseded && !closedManuallyRef.current && !reconnectingRef.current && canRetry) {
+          const delay = getReconnectDelay(reconnectCountRef.current, {
+            baseDelay: reconnectInterval,
+            maxDelay: maxReconnectInterval,
+            multiplier: backoffMultiplier,
+            jitter,
+          });
 
-        if (!reconnectingRef.current && state.reconnectCount < reconnectAttempts) {
           reconnectingRef.current = true;
+          setState(prev => ({ ...prev, nextReconnectAt: Date.now() + delay }));
           reconnectTimeoutRef.current = setTimeout(() => {
+            reconnectCountRef.current += 1;
             setState(prev => ({
               ...prev,
-              reconnectCount: prev.reconnectCount + 1,
+              reconnectCount: reconnectCountRef.current,
+              nextReconnectAt: null,
             }));
             reconnectingRef.current = false;
             onReconnect?.();
             connect();
-          }, reconnectInterval);
+          }, delay);
         }
 
         onClose?.(event);
@@ -117,15 +381,29 @@ export function useWebSocket({
           error: new Error('WebSocket error'),
           readyState: wsRef.current?.readyState || WebSocket.CLOSED,
         }));
-        onError?.(event);
+        optionsRef.current.onError?.(event);
       };
 
       wsRef.current.onmessage = (event) => {
+        const { decodeBinary, sequenced, onMessage } = optionsRef.current;
         let parsedData;
-        try {
-          parsedData = JSON.parse(event.data);
-        } catch {
-          parsedData = event.data;
+        if (event.data instanceof ArrayBuffer) {
+          try {
+            parsedData = decodeBinary ? decodeBinary(event.data) : event.data;
+          } catch (error) {
+            console.error('Failed to decode binary WebSocket message:', error);
+            parsedData = event.data;
+          }
+        } else {
+          try {
+            parsedData = JSON.parse(event.data);
+          } catch {
+            parsedData = event.data;
+          }
+        }
+
+        if (sequenced && parsedData && typeof parsedData === 'object' && !handleSequence(parsedData)) {
+          return;
         }
 
         setState(prev => ({
@@ -133,7 +411,7 @@ export function useWebSocket({
           lastMessage: parsedData,
         }));
 
-        onMessage?.(event);
+        onMessage?.(event, parsedData);
       };
     } catch (error) {
       setState(prev => ({
@@ -142,50 +420,20 @@ export function useWebSocket({
         readyState: WebSocket.CLOSED,
       }));
     }
-  }, [
-    url,
-    protocols,
-    online,
-    heartbeatInterval,
-    heartbeatMessage,
-    reconnectAttempts,
-    reconnectInterval,
-    state.reconnectCount,
-    onOpen,
-    onClose,
-    onMessage,
-    onError,
-    onReconnect,
-  ]);
-
-  // Send message
-  const send = useCallback((message: any) => {
-    if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) {
-      messageQueueRef.current.push(message);
-      return false;
-    }
-
-    try {
-      const data = typeof message === 'string' ? message : JSON.stringify(message);
-      wsRef.current.send(data);
-      return true;
-    } catch (error) {
-      setState(prev => ({
-        ...prev,
-        error: error instanceof Error ? error : new Error('Failed to send message'),
-      }));
-      return false;
-    }
-  }, []);
+  }, [url, protocolsKey, online, send, requestResume, handleSequence]);
 
   // Close connection
   const close = useCallback(() => {
+    closedManuallyRef.current = true;
+    reconnectingRef.current = false;
+    deferredConnectRef.current = false;
     if (reconnectTimeoutRef.current) {
       clearTimeout(reconnectTimeoutRef.current);
     }
     if (heartbeatIntervalRef.current) {
       clearInterval(heartbeatIntervalRef.current);
     }
+    clearTimeout(resyncTimeoutRef.current);
     if (wsRef.current) {
       wsRef.current.close();
       wsRef.current = null;
@@ -195,9 +443,21 @@ export function useWebSocket({
       ...prev,
       connected: false,
       readyState: WebSocket.CLOSED,
+      nextReconnectAt: null,
     }));
   }, []);
 
+  // Skip any pending backoff and try again immediately
+  const reconnectNow = useCallback(() => {
+    if (reconnectTimeoutRef.current) {
+      clearTimeout(reconnectTimeoutRef.current);
+    }
+    reconnectingRef.current = false;
+    reconnectCountRef.current = 0;
+    setState(prev => ({ ...prev, reconnectCount: 0, nextReconnectAt: null }));
+    connect();
+  }, [connect]);
+
   // Connect when online
   useEffect(() => {
     if (online) {
@@ -206,18 +466,58 @@ export function useWebSocket({
     return close;
   }, [online, connect, close]);
 
-  // Reconnect on network status change
+  // Make the attempt that was held back once the pause ends
   useEffect(() => {
-    if (online && !state.connected && state.reconnectCount < reconnectAttempts) {
+    if (!pauseReconnect && deferredConnectRef.current) {
+      deferredConnectRef.current = false;
       connect();
     }
-  }, [online, state.connected, state.reconnectCount, reconnectAttempts, connect]);
+  }, [pauseReconnect, connect]);
+
+  // Retry straight away when the tab becomes visible again
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (
+        document.visibilityState === 'visible' &&
+        !closedManuallyRef.current &&
+        wsRef.current?.readyState !== WebSocket.OPEN
+      ) {
+        reconnectNow();
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [reconnectNow]);
+
+  // Countdown in seconds for status displays
+  useEffect(() => {
+    const { nextReconnectAt } = state;
+    if (nextReconnectAt === null) {
+      setReconnectIn(null);
+      return;
+    }
+
+    const tick = () => {
+      setReconnectIn(Math.max(0, Math.ceil((nextReconnectAt - Date.now()) / 1000)));
+    };
+    tick();
+    const intervalId = setInterval(tick, 1000);
+    return () => clearInterval(intervalId);
+  }, [state.nextReconnectAt]);
+
+  // Read when needed; the sequence advances without re-rendering
+  const getLastSequence = useCallback(() => lastSequenceRef.current, []);
 
   return {
     ...state,
+    getLastSequence,
+    reconnectIn,
     send,
     close,
     connect,
+    reconnectNow,
+    resync: requestSnapshot,
   };
 }
 
@@ -227,6 +527,12 @@ interface Subscription {
   handler: (data: any) => void;
 }
 
+// Binary decoders may unpack one frame into several envelopes
+export interface SubscriptionEnvelope {
+  event: string;
+  data: any;
+}
+
 export function useWebSocketSubscription(
   url: string,
   subscriptions: Subscription[],
@@ -235,13 +541,19 @@ export function useWebSocketSubscription(
   const ws = useWebSocket({
     ...options,
     url,
-    onMessage: (event) => {
+    onMessage: (event, message) => {
       try {
-        const { event: eventName, data } = JSON.parse(event.data);
-        const subscription = subscriptions.find(sub => sub.event === eventName);
-        if (subscription) {
-          subscription.handler(data);
+        if (!message || typeof message !== 'object' || message instanceof ArrayBuffer) {
+          throw new Error(`Unexpected message format: ${typeof event.data}`);
         }
+
+        const envelopes: SubscriptionEnvelope[] = Array.isArray(message) ? message : [message];
+        envelopes.forEach(({ event: eventName, data }) => {
+          const subscription = subscriptions.find(sub => sub.event === eventName);
+          if (subscription) {
+            subscription.handler(data);
+          }
+        });
       } catch (error) {
         console.error('Failed to handle WebSocket message:', error);
       }
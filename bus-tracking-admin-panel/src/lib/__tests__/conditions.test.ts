@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateCondition, formatCondition, isConditionError, parseCondition } from '../conditions';
+
+const context = {
+  user: { depotId: '12', roles: ['dispatcher'] },
+  resource: { depotId: 12, status: 'active', capacity: 40 },
+};
+
+describe('parseCondition', () => {
+  it('parses comparisons, lists and boolean operators', () => {
+    expect(parseCondition("user.depotId == resource.depotId and resource.status in ['active', 'spare']")).toEqual({
+      and: [
+        { op: 'eq', left: { ref: 'user.depotId' }, right: { ref: 'resource.depotId' } },
+        { op: 'in', left: { ref: 'resource.status' }, right: ['active', 'spare'] },
+      ],
+    });
+  });
+
+  it('round-trips through formatCondition', () => {
+    expect(formatCondition('not resource.capacity > 50')).toBe('not (resource.capacity > 50)');
+  });
+
+  it('throws syntax errors for malformed text', () => {
+    try {
+      parseCondition('user.depotId ==');
+      expect.unreachable();
+    } catch (error) {
+      expect(isConditionError(error) && error.type).toBe('syntax');
+    }
+  });
+});
+
+describe('evaluateCondition', () => {
+  it('compares numeric strings with numbers', () => {
+    expect(evaluateCondition('user.depotId == resource.depotId', context)).toEqual({ passed: true });
+  });
+
+  it('explains failures with the values compared', () => {
+    const result = evaluateCondition('resource.capacity > 50', context);
+    expect(result.passed).toBe(false);
+    expect(result.reason).toContain('resource.capacity is 40');
+  });
+
+  it('never matches two unset attributes', () => {
+    const result = evaluateCondition('user.routeId == resource.routeId', context);
+    expect(result).toEqual({ passed: false, reason: 'user.routeId and resource.routeId are unset' });
+  });
+
+  it('does not turn an unset attribute into a pass through not', () => {
+    expect(evaluateCondition('not user.routeId == resource.routeId', context).passed).toBe(false);
+    expect(evaluateCondition("not user.routeId == '7'", context).passed).toBe(false);
+  });
+
+  it('tests for unset attributes only with an explicit null', () => {
+    expect(evaluateCondition('user.routeId == null', context).passed).toBe(true);
+    expect(evaluateCondition('user.routeId != null', context).passed).toBe(false);
+  });
+
+  it('passes an or when any alternative holds', () => {
+    expect(evaluateCondition("user.routeId == '7' or user.roles contains 'dispatcher'", context).passed).toBe(true);
+  });
+
+  it('rejects unknown operators in structured conditions', () => {
+    expect(() => evaluateCondition({ op: 'like' as never, left: 1, right: 1 }, context)).toThrow(/Unknown condition operator/);
+  });
+});
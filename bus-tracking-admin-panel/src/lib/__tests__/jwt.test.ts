@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { JwtClaims, createKeyResolver, isJwtError, signJwt, validateClaims, verifyJwt } from '../jwt';
+
+const now = Date.UTC(2026, 0, 1);
+const seconds = now / 1000;
+
+const errorType = (run: () => void) => {
+  try {
+    run();
+    return null;
+  } catch (error) {
+    return isJwtError(error) ? error.type : 'unknown';
+  }
+};
+
+describe('validateClaims', () => {
+  it('accepts a token within its lifetime', () => {
+    expect(errorType(() => validateClaims({ exp: seconds + 60, nbf: seconds - 60 }, { now }))).toBeNull();
+  });
+
+  it('rejects expired tokens beyond the clock tolerance', () => {
+    expect(errorType(() => validateClaims({ exp: seconds - 30 }, { now, clockTolerance: 60 }))).toBeNull();
+    expect(errorType(() => validateClaims({ exp: seconds - 61 }, { now, clockTolerance: 60 }))).toBe('expired');
+  });
+
+  it('rejects tokens that are not valid yet', () => {
+    expect(errorType(() => validateClaims({ nbf: seconds + 120 }, { now, clockTolerance: 60 }))).toBe('not_yet_valid');
+  });
+
+  it('requires exp when asked to', () => {
+    expect(errorType(() => validateClaims({}, { now }))).toBeNull();
+    expect(errorType(() => validateClaims({}, { now, requireExp: true }))).toBe('malformed');
+  });
+
+  it('refuses a clock tolerance that is not a number', () => {
+    expect(errorType(() => validateClaims({ exp: seconds - 3600 }, { now, clockTolerance: NaN }))).toBe('config');
+  });
+
+  it('checks issuer and audience against the accepted values', () => {
+    const claims: JwtClaims = { exp: seconds + 60, iss: 'https://id.example.com', aud: ['panel', 'api'] };
+    expect(errorType(() => validateClaims(claims, { now, issuer: ['https://id.example.com'], audience: 'api' }))).toBeNull();
+    expect(errorType(() => validateClaims(claims, { now, issuer: 'https://other.example.com' }))).toBe('invalid_issuer');
+    expect(errorType(() => validateClaims(claims, { now, audience: 'reports' }))).toBe('invalid_audience');
+  });
+});
+
+describe('verifyJwt', () => {
+  const getKeys = createKeyResolver({ secret: 'test-secret' });
+
+  it('verifies tokens signed with the shared secret', async () => {
+    const token = await signJwt({ sub: 'driver-7', exp: Math.floor(Date.now() / 1000) + 60 }, 'test-secret');
+    await expect(verifyJwt(token, { getKeys })).resolves.toMatchObject({ sub: 'driver-7' });
+  });
+
+  it('rejects tokens signed with another secret', async () => {
+    const token = await signJwt({ sub: 'driver-7' }, 'other-secret');
+    await expect(verifyJwt(token, { getKeys })).rejects.toMatchObject({ type: 'invalid_signature' });
+  });
+
+  it('rejects unsigned tokens', async () => {
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    const token = `${encode({ alg: 'none' })}.${encode({ sub: 'driver-7' })}.`;
+    await expect(verifyJwt(token, { getKeys })).rejects.toMatchObject({ type: 'unsupported_algorithm' });
+  });
+});
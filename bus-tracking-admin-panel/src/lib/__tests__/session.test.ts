@@ -0,0 +1,51 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  createMemoryRefreshTokenStore,
+  createSession,
+  rotateSession,
+  setRefreshTokenStore,
+} from '../session';
+
+describe('rotateSession', () => {
+  beforeEach(() => {
+    process.env.AUTH_JWT_SECRET = 'test-secret';
+    setRefreshTokenStore(createMemoryRefreshTokenStore());
+  });
+
+  it('exchanges a refresh token for a new pair', async () => {
+    const now = Date.now();
+    const session = await createSession({ sub: 'dispatcher-1' }, now);
+    const rotated = await rotateSession(session.refreshToken, now + 1000);
+
+    expect(rotated.refreshToken).not.toBe(session.refreshToken);
+    expect(rotated.accessToken).not.toBe(session.accessToken);
+  });
+
+  it('tells the loser of a concurrent rotation to use the winner\'s tokens', async () => {
+    const now = Date.now();
+    const session = await createSession({ sub: 'dispatcher-1' }, now);
+    const rotated = await rotateSession(session.refreshToken, now + 1000);
+
+    await expect(rotateSession(session.refreshToken, now + 2000)).rejects.toMatchObject({ type: 'superseded' });
+    // The winner's session survives the race
+    await expect(rotateSession(rotated.refreshToken, now + 3000)).resolves.toBeDefined();
+  });
+
+  it('revokes the whole family when an old token is reused', async () => {
+    const now = Date.now();
+    const session = await createSession({ sub: 'dispatcher-1' }, now);
+    const rotated = await rotateSession(session.refreshToken, now + 1000);
+
+    await expect(rotateSession(session.refreshToken, now + 60 * 1000)).rejects.toMatchObject({ type: 'reused' });
+    await expect(rotateSession(rotated.refreshToken, now + 61 * 1000)).rejects.toMatchObject({ type: 'invalid' });
+  });
+
+  it('rejects missing, unknown and expired tokens', async () => {
+    const now = Date.now();
+    const session = await createSession({ sub: 'dispatcher-1' }, now);
+
+    await expect(rotateSession(undefined, now)).rejects.toMatchObject({ type: 'missing' });
+    await expect(rotateSession('not-a-token', now)).rejects.toMatchObject({ type: 'invalid' });
+    await expect(rotateSession(session.refreshToken, session.refreshExpiresAt)).rejects.toMatchObject({ type: 'expired' });
+  });
+});
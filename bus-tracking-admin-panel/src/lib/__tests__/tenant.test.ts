@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { isTenantAllowed, resolveTenant, tenantKey } from '../tenant';
+
+const config = { tenants: ['metro', 'valley'], rootDomain: 'panel.example.com' };
+
+describe('resolveTenant', () => {
+  it('reads the tenant from a subdomain', () => {
+    expect(resolveTenant({ hostname: 'metro.panel.example.com', pathname: '/dashboard' }, config))
+      .toEqual({ tenantId: 'metro', source: 'subdomain', pathname: '/dashboard' });
+  });
+
+  it('reads the tenant from a path prefix and strips it', () => {
+    expect(resolveTenant({ hostname: 'panel.example.com', pathname: '/Valley/routes/12' }, config))
+      .toEqual({ tenantId: 'valley', source: 'path', pathname: '/routes/12' });
+  });
+
+  it('prefers the subdomain over a path prefix', () => {
+    expect(resolveTenant({ hostname: 'metro.panel.example.com', pathname: '/valley/dashboard' }, config)?.tenantId)
+      .toBe('metro');
+  });
+
+  it('accepts the tenant header for API calls only', () => {
+    expect(resolveTenant({ hostname: 'panel.example.com', pathname: '/api/vehicles', headerTenant: 'valley' }, config))
+      .toEqual({ tenantId: 'valley', source: 'header', pathname: '/api/vehicles' });
+    expect(resolveTenant({ hostname: 'panel.example.com', pathname: '/dashboard', headerTenant: 'valley' }, config))
+      .toBeNull();
+  });
+
+  it('ignores unknown tenants and is off without a tenant list', () => {
+    expect(resolveTenant({ hostname: 'other.panel.example.com', pathname: '/unknown/x' }, config)).toBeNull();
+    expect(resolveTenant({ hostname: 'metro.panel.example.com', pathname: '/' }, { tenants: [] })).toBeNull();
+  });
+});
+
+describe('isTenantAllowed', () => {
+  it('accepts tenants named in the tenant or tenants claim', () => {
+    expect(isTenantAllowed({ tenant: 'metro' }, 'metro')).toBe(true);
+    expect(isTenantAllowed({ tenants: ['metro', 'valley'] }, 'valley')).toBe(true);
+    expect(isTenantAllowed({ tenant: 'metro' }, 'valley')).toBe(false);
+  });
+});
+
+describe('tenantKey', () => {
+  it('namespaces keys by tenant', () => {
+    expect(tenantKey('theme', 'metro')).toBe('metro:theme');
+    expect(tenantKey('theme', null)).toBe('theme');
+  });
+});
@@ -0,0 +1,130 @@
+// Session token settings shared by the middleware and server components
+
+import {
+  JwtClaims,
+  JwtKeyResolver,
+  JwtErrorType,
+  base64UrlDecode,
+  base64UrlEncode,
+  createJwtError,
+  createKeyResolver,
+  isJwtError,
+  verifyJwt,
+} from './jwt';
+
+export const AUTH_COOKIE = 'auth_token';
+// Access token expiry in milliseconds, readable by scripts so the session hook
+// can renew ahead of time; it grants nothing on its own
+export const SESSION_EXPIRES_COOKIE = 'auth_expires_at';
+export const REFRESH_ENDPOINT = '/api/auth/refresh';
+
+// Request headers carrying verified claims from the middleware to server components.
+// The middleware strips any incoming copies so clients cannot forge them.
+export const AUTH_HEADERS = {
+  userId: 'x-auth-user-id',
+  claims: 'x-auth-claims',
+} as const;
+
+export interface AuthConfig {
+  getKeys: JwtKeyResolver;
+  issuer?: string | string[];
+  audience?: string | string[];
+  clockTolerance: number;
+  requireExp: true;
+}
+
+const splitList = (value: string | undefined) => {
+  const items = value?.split(',').map(item => item.trim()).filter(Boolean) ?? [];
+  return items.length === 0 ? undefined : items.length === 1 ? items[0] : items;
+};
+
+const clockTolerance = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value !== undefined && value.trim() !== '' && Number.isFinite(parsed) && parsed >= 0
+    ? parsed
+    : fallback;
+};
+
+// Relative JWKS URLs resolve against the configured origin, never the request's
+// Host header, which the client controls
+function resolveJwksUrl(): string | undefined {
+  const jwksUrl = process.env.AUTH_JWKS_URL;
+  if (!jwksUrl) return undefined;
+  if (/^https?:\/\//i.test(jwksUrl)) return jwksUrl;
+
+  const origin = process.env.AUTH_APP_ORIGIN;
+  if (!origin) {
+    throw createJwtError('AUTH_JWKS_URL is relative but AUTH_APP_ORIGIN is not set', 'config');
+  }
+  return new URL(jwksUrl, origin).toString();
+}
+
+let config: AuthConfig | null = null;
+
+// Verification settings come from the environment:
+//   AUTH_JWT_SECRET            shared secret for HS256/384/512
+//   AUTH_JWKS                  inline JWKS JSON
+//   AUTH_JWKS_URL              JWKS document; relative URLs resolve against
+//                              AUTH_APP_ORIGIN, so a file in public/ works
+//   AUTH_APP_ORIGIN            the app's own origin, e.g. https://panel.example.com
+//   AUTH_JWT_ISSUER / AUTH_JWT_AUDIENCE   comma-separated accepted values
+//   AUTH_JWT_CLOCK_TOLERANCE   seconds of allowed clock skew (default 60)
+export function getAuthConfig(): AuthConfig {
+  if (config) return config;
+
+  config = {
+    getKeys: createKeyResolver({
+      secret: process.env.AUTH_JWT_SECRET || undefined,
+      jwks: process.env.AUTH_JWKS ? JSON.parse(process.env.AUTH_JWKS) : undefined,
+      jwksUrl: resolveJwksUrl(),
+    }),
+    issuer: splitList(process.env.AUTH_JWT_ISSUER),
+    audience: splitList(process.env.AUTH_JWT_AUDIENCE),
+    clockTolerance: clockTolerance(process.env.AUTH_JWT_CLOCK_TOLERANCE, 60),
+    // Access tokens must expire
+    requireExp: true,
+  };
+  return config;
+}
+
+export type AuthResult =
+  | { valid: true; claims: JwtClaims }
+  | { valid: false; reason: JwtErrorType };
+
+export async function verifyAuthToken(token: string): Promise<AuthResult> {
+  try {
+    const claims = await verifyJwt(token, getAuthConfig());
+    return { valid: true, claims };
+  } catch (error) {
+    // Anything other than a token problem is a key or configuration failure
+    return { valid: false, reason: isJwtError(error) ? error.type : 'config' };
+  }
+}
+
+// Copy request headers, replacing any forwarded claims with the verified ones
+export function withForwardedClaims(headers: Headers, claims: JwtClaims | null): Headers {
+  const forwarded = new Headers(headers);
+  forwarded.delete(AUTH_HEADERS.userId);
+  forwarded.delete(AUTH_HEADERS.claims);
+
+  if (claims) {
+    if (claims.sub) forwarded.set(AUTH_HEADERS.userId, claims.sub);
+    forwarded.set(
+      AUTH_HEADERS.claims,
+      base64UrlEncode(new TextEncoder().encode(JSON.stringify(claims)))
+    );
+  }
+  return forwarded;
+}
+
+// Read the claims the middleware verified, e.g. `getForwardedClaims(headers())`
+export function getForwardedClaims(headers: Headers): JwtClaims | null {
+  const encoded = headers.get(AUTH_HEADERS.claims);
+  if (!encoded) return null;
+
+  try {
+    return JSON.parse(new TextDecoder().decode(base64UrlDecode(encoded)));
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,350 @@
+// Attribute-based conditions for permission rules. A condition is either a
+// structured expression (storable as JSON) or the equivalent text, e.g.
+//   "user.depotId == resource.depotId and resource.status in ['active', 'spare']"
+// References are dotted paths into the evaluation context.
+
+export type ConditionOperator = 'eq' | 'ne' | 'in' | 'contains' | 'gt' | 'gte' | 'lt' | 'lte';
+
+export type ConditionLiteral = string | number | boolean | null;
+
+// Strings are literals; references into the context are written { ref: 'user.depotId' }
+export type ConditionOperand = ConditionLiteral | { ref: string } | ConditionLiteral[];
+
+export type ConditionExpression =
+  | { op: ConditionOperator; left: ConditionOperand; right: ConditionOperand }
+  | { and: ConditionExpression[] }
+  | { or: ConditionExpression[] }
+  | { not: ConditionExpression };
+
+export type PermissionCondition = ConditionExpression | string;
+
+export interface ConditionResult {
+  passed: boolean;
+  // Why the condition failed, naming the values that were compared
+  reason?: string;
+}
+
+export type ConditionErrorType = 'syntax' | 'invalid';
+
+export interface ConditionError extends Error {
+  type: ConditionErrorType;
+}
+
+export const createConditionError = (message: string, type: ConditionErrorType): ConditionError => {
+  const error = new Error(message) as ConditionError;
+  error.type = type;
+  return error;
+};
+
+export const isConditionError = (error: unknown): error is ConditionError =>
+  error instanceof Error && typeof (error as ConditionError).type === 'string';
+
+const OPERATOR_SYMBOLS: Record<ConditionOperator, string> = {
+  eq: '==',
+  ne: '!=',
+  in: 'in',
+  contains: 'contains',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+};
+
+const SYMBOL_OPERATORS = new Map(
+  (Object.entries(OPERATOR_SYMBOLS) as [ConditionOperator, string][]).map(([op, symbol]) => [symbol, op])
+);
+
+// Claims often carry IDs as strings, so numbers and numeric strings compare equal
+const equals = (a: unknown, b: unknown) =>
+  a === b ||
+  ((typeof a === 'number' || typeof a === 'string') &&
+    (typeof b === 'number' || typeof b === 'string') &&
+    String(a) === String(b));
+
+// Ordering only applies to two numbers or two strings
+const compare = (a: unknown, b: unknown): number | null => {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'string' && typeof b === 'string') return a.localeCompare(b);
+  return null;
+};
+
+const ordered = (test: (order: number) => boolean) => (left: unknown, right: unknown) => {
+  const order = compare(left, right);
+  return order !== null && test(order);
+};
+
+const OPERATORS: Record<ConditionOperator, (left: unknown, right: unknown) => boolean> = {
+  eq: (left, right) => equals(left, right),
+  ne: (left, right) => !equals(left, right),
+  in: (left, right) => Array.isArray(right) && right.some(item => equals(left, item)),
+  contains: (left, right) =>
+    Array.isArray(left)
+      ? left.some(item => equals(item, right))
+      : typeof left === 'string' && right !== null && right !== undefined && left.includes(String(right)),
+  gt: ordered(order => order > 0),
+  gte: ordered(order => order >= 0),
+  lt: ordered(order => order < 0),
+  lte: ordered(order => order <= 0),
+};
+
+// Parsing
+
+type Token =
+  | { kind: 'number'; value: number }
+  | { kind: 'string'; value: string }
+  | { kind: 'symbol'; value: string }
+  | { kind: 'word'; value: string };
+
+const TOKEN_PATTERN =
+  /\s*(?:(-?\d+(?:\.\d+)?)|'((?:[^'\\]|\\.)*)'|"((?:[^"\\]|\\.)*)"|(==|!=|>=|<=|&&|\|\||[><!()[\],])|([A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*))/y;
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+
+  while (TOKEN_PATTERN.lastIndex < source.length) {
+    const start = TOKEN_PATTERN.lastIndex;
+    const match = TOKEN_PATTERN.exec(source);
+    if (!match) {
+      if (source.slice(start).trim() === '') break;
+      throw createConditionError(`Unexpected character at ${start} in "${source}"`, 'syntax');
+    }
+
+    const [, number, single, double, symbol, word] = match;
+    if (number !== undefined) tokens.push({ kind: 'number', value: Number(number) });
+    else if (single !== undefined) tokens.push({ kind: 'string', value: single.replace(/\\(.)/g, '$1') });
+    else if (double !== undefined) tokens.push({ kind: 'string', value: double.replace(/\\(.)/g, '$1') });
+    else if (symbol !== undefined) tokens.push({ kind: 'symbol', value: symbol });
+    else tokens.push({ kind: 'word', value: word });
+  }
+  return tokens;
+}
+
+// Recursive descent: or > and > not > comparison
+function parse(source: string): ConditionExpression {
+  const tokens = tokenize(source);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const fail = (expected: string): never => {
+    const token = peek();
+    throw createConditionError(
+      `Expected ${expected} but found ${token ? `"${token.value}"` : 'end of condition'} in "${source}"`,
+      'syntax'
+    );
+  };
+  const accept = (...values: string[]) => {
+    const token = peek();
+    if (token && (token.kind === 'symbol' || token.kind === 'word') && values.includes(token.value)) {
+      position += 1;
+      return true;
+    }
+    return false;
+  };
+  const expect = (value: string) => {
+    if (!accept(value)) fail(`"${value}"`);
+  };
+
+  const literal = (): ConditionLiteral => {
+    const token = peek();
+    if (token?.kind === 'number' || token?.kind === 'string') {
+      position += 1;
+      return token.value;
+    }
+    if (accept('true')) return true;
+    if (accept('false')) return false;
+    if (accept('null')) return null;
+    return fail('a value');
+  };
+
+  const operand = (): ConditionOperand => {
+    if (accept('[')) {
+      const items: ConditionLiteral[] = [];
+      if (!accept(']')) {
+        do {
+          items.push(literal());
+        } while (accept(','));
+        expect(']');
+      }
+      return items;
+    }
+    const token = peek();
+    if (token?.kind === 'word' && !['true', 'false', 'null'].includes(token.value)) {
+      position += 1;
+      return { ref: token.value };
+    }
+    return literal();
+  };
+
+  const comparison = (): ConditionExpression => {
+    if (accept('(')) {
+      const inner = or();
+      expect(')');
+      return inner;
+    }
+    const left = operand();
+    const token = peek();
+    const op = token && token.kind !== 'number' && token.kind !== 'string'
+      ? SYMBOL_OPERATORS.get(token.value)
+      : undefined;
+    if (!op) return fail('an operator (==, !=, >, >=, <, <=, in, contains)');
+    position += 1;
+    return { op, left, right: operand() };
+  };
+
+  const not = (): ConditionExpression =>
+    accept('not', '!') ? { not: not() } : comparison();
+
+  const and = (): ConditionExpression => {
+    const terms = [not()];
+    while (accept('and', '&&')) terms.push(not());
+    return terms.length === 1 ? terms[0] : { and: terms };
+  };
+
+  const or = (): ConditionExpression => {
+    const terms = [and()];
+    while (accept('or', '||')) terms.push(and());
+    return terms.length === 1 ? terms[0] : { or: terms };
+  };
+
+  const expression = or();
+  if (position < tokens.length) fail('end of condition');
+  return expression;
+}
+
+const parsed = new Map<string, ConditionExpression>();
+
+// Parse text conditions once; structured ones are returned as they are
+export function parseCondition(condition: PermissionCondition): ConditionExpression {
+  if (typeof condition !== 'string') return condition;
+
+  let expression = parsed.get(condition);
+  if (!expression) {
+    expression = parse(condition);
+    parsed.set(condition, expression);
+  }
+  return expression;
+}
+
+// Formatting
+
+const isReference = (operand: ConditionOperand): operand is { ref: string } =>
+  operand !== null && typeof operand === 'object' && !Array.isArray(operand);
+
+const formatValue = (value: unknown): string =>
+  value === undefined ? 'unset' : JSON.stringify(value);
+
+const formatOperand = (operand: ConditionOperand): string =>
+  isReference(operand)
+    ? operand.ref
+    : Array.isArray(operand)
+      ? `[${operand.map(formatValue).join(', ')}]`
+      : formatValue(operand);
+
+// Text form of an expression, as it would be written in a rule
+export function formatCondition(condition: PermissionCondition): string {
+  const expression = parseCondition(condition);
+  if ('op' in expression) {
+    return `${formatOperand(expression.left)} ${OPERATOR_SYMBOLS[expression.op]} ${formatOperand(expression.right)}`;
+  }
+  if ('not' in expression) return `not (${formatCondition(expression.not)})`;
+  if ('and' in expression) return expression.and.map(term => `(${formatCondition(term)})`).join(' and ');
+  return expression.or.map(term => `(${formatCondition(term)})`).join(' or ');
+}
+
+// Evaluation
+
+const resolvePath = (context: Record<string, any>, path: string): unknown =>
+  path.split('.').reduce<unknown>(
+    (value, key) => (value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    context
+  );
+
+const resolveOperand = (operand: ConditionOperand, context: Record<string, any>): unknown =>
+  isReference(operand) ? resolvePath(context, operand.ref) : operand;
+
+interface EvaluationResult extends ConditionResult {
+  // A referenced attribute was missing; `not` must not turn this into a pass
+  unresolved?: boolean;
+}
+
+function evaluate(expression: ConditionExpression, context: Record<string, any>): EvaluationResult {
+  if ('op' in expression) {
+    const test = OPERATORS[expression.op];
+    if (!test) {
+      throw createConditionError(`Unknown condition operator "${expression.op}"`, 'invalid');
+    }
+
+    // Missing attributes never match each other or anything else; only an
+    // explicit null literal (`user.depotId == null`) tests for them
+    const unset = [expression.left, expression.right]
+      .filter(isReference)
+      .filter(operand => resolvePath(context, operand.ref) == null)
+      .map(operand => operand.ref);
+    const testsNull = expression.left === null || expression.right === null;
+    if (unset.length > 0 && testsNull && (expression.op === 'eq' || expression.op === 'ne')) {
+      return expression.op === 'eq'
+        ? { passed: true }
+        : { passed: false, reason: `${formatCondition(expression)} is false (${unset.join(', ')} is unset)` };
+    }
+    if (unset.length > 0) {
+      return {
+        passed: false,
+        unresolved: true,
+        reason: `${unset.join(' and ')} ${unset.length > 1 ? 'are' : 'is'} unset`,
+      };
+    }
+
+    const left = resolveOperand(expression.left, context);
+    const right = resolveOperand(expression.right, context);
+    if (test(left, right)) return { passed: true };
+
+    // Name the referenced values so the denial explains itself
+    const bindings = [expression.left, expression.right]
+      .filter(isReference)
+      .map(operand => `${operand.ref} is ${formatValue(resolvePath(context, operand.ref))}`);
+    return {
+      passed: false,
+      reason: `${formatCondition(expression)} is false${bindings.length ? ` (${bindings.join(', ')})` : ''}`,
+    };
+  }
+
+  if ('not' in expression) {
+    const result = evaluate(expression.not, context);
+    if (result.unresolved) return result;
+    return result.passed
+      ? { passed: false, reason: `${formatCondition(expression.not)} must not hold` }
+      : { passed: true };
+  }
+
+  if ('and' in expression) {
+    for (const term of expression.and) {
+      const result = evaluate(term, context);
+      if (!result.passed) return result;
+    }
+    return { passed: true };
+  }
+
+  if ('or' in expression) {
+    const reasons: string[] = [];
+    let unresolved = false;
+    for (const term of expression.or) {
+      const result = evaluate(term, context);
+      if (result.passed) return result;
+      if (result.reason) reasons.push(result.reason);
+      unresolved = unresolved || !!result.unresolved;
+    }
+    return { passed: false, unresolved, reason: `none of the alternatives hold: ${reasons.join('; ')}` };
+  }
+
+  throw createConditionError('Condition must have op, and, or or not', 'invalid');
+}
+
+// Evaluate a condition against e.g. { user, resource }; malformed conditions throw
+export function evaluateCondition(
+  condition: PermissionCondition,
+  context: Record<string, any>
+): ConditionResult {
+  const { passed, reason } = evaluate(parseCondition(condition), context);
+  return passed ? { passed } : { passed, reason };
+}
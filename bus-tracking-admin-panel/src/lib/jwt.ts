@@ -0,0 +1,314 @@
+// JWT verification with Web Crypto, usable in the edge runtime
+
+export interface JwtHeader {
+  alg: string;
+  kid?: string;
+  typ?: string;
+}
+
+export interface JwtClaims {
+  sub?: string;
+  iss?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  [claim: string]: unknown;
+}
+
+export type JwtErrorType =
+  | 'malformed'
+  | 'unsupported_algorithm'
+  | 'unknown_key'
+  | 'invalid_signature'
+  | 'expired'
+  | 'not_yet_valid'
+  | 'invalid_issuer'
+  | 'invalid_audience'
+  | 'config';
+
+export interface JwtError extends Error {
+  type: JwtErrorType;
+}
+
+export const createJwtError = (message: string, type: JwtErrorType): JwtError => {
+  const error = new Error(message) as JwtError;
+  error.type = type;
+  return error;
+};
+
+export const isJwtError = (error: unknown): error is JwtError =>
+  error instanceof Error && typeof (error as JwtError).type === 'string';
+
+// Returns the keys a token with this header may have been signed with
+export type JwtKeyResolver = (header: JwtHeader) => Promise<CryptoKey[]>;
+
+export interface JwtVerifyOptions {
+  getKeys: JwtKeyResolver;
+  issuer?: string | string[];
+  audience?: string | string[];
+  // Seconds of clock skew allowed for exp and nbf
+  clockTolerance?: number;
+  // Reject tokens without an exp claim
+  requireExp?: boolean;
+  // Current time in milliseconds
+  now?: number;
+}
+
+interface AlgorithmParams {
+  kty: 'oct' | 'RSA' | 'EC';
+  importParams: HmacImportParams | RsaHashedImportParams | EcKeyImportParams;
+  verifyParams: AlgorithmIdentifier | RsaPssParams | EcdsaParams;
+}
+
+// `none` is deliberately absent
+const ALGORITHMS: Record<string, AlgorithmParams> = {
+  HS256: { kty: 'oct', importParams: { name: 'HMAC', hash: 'SHA-256' }, verifyParams: 'HMAC' },
+  HS384: { kty: 'oct', importParams: { name: 'HMAC', hash: 'SHA-384' }, verifyParams: 'HMAC' },
+  HS512: { kty: 'oct', importParams: { name: 'HMAC', hash: 'SHA-512' }, verifyParams: 'HMAC' },
+  RS256: { kty: 'RSA', importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, verifyParams: 'RSASSA-PKCS1-v1_5' },
+  RS384: { kty: 'RSA', importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-384' }, verifyParams: 'RSASSA-PKCS1-v1_5' },
+  RS512: { kty: 'RSA', importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-512' }, verifyParams: 'RSASSA-PKCS1-v1_5' },
+  PS256: { kty: 'RSA', importParams: { name: 'RSA-PSS', hash: 'SHA-256' }, verifyParams: { name: 'RSA-PSS', saltLength: 32 } },
+  PS384: { kty: 'RSA', importParams: { name: 'RSA-PSS', hash: 'SHA-384' }, verifyParams: { name: 'RSA-PSS', saltLength: 48 } },
+  PS512: { kty: 'RSA', importParams: { name: 'RSA-PSS', hash: 'SHA-512' }, verifyParams: { name: 'RSA-PSS', saltLength: 64 } },
+  ES256: { kty: 'EC', importParams: { name: 'ECDSA', namedCurve: 'P-256' }, verifyParams: { name: 'ECDSA', hash: 'SHA-256' } },
+  ES384: { kty: 'EC', importParams: { name: 'ECDSA', namedCurve: 'P-384' }, verifyParams: { name: 'ECDSA', hash: 'SHA-384' } },
+  ES512: { kty: 'EC', importParams: { name: 'ECDSA', namedCurve: 'P-521' }, verifyParams: { name: 'ECDSA', hash: 'SHA-512' } },
+};
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+export function base64UrlDecode(input: string): Uint8Array {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+export function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+const decodeJson = <T>(segment: string): T => JSON.parse(textDecoder.decode(base64UrlDecode(segment)));
+
+// Split a compact JWS without verifying it
+export function decodeJwt(token: string): { header: JwtHeader; claims: JwtClaims } {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw createJwtError('Token is not a compact JWS', 'malformed');
+  }
+
+  try {
+    const header = decodeJson<JwtHeader>(parts[0]);
+    const claims = decodeJson<JwtClaims>(parts[1]);
+    if (typeof header?.alg !== 'string' || typeof claims !== 'object' || claims === null) {
+      throw new Error('Invalid token structure');
+    }
+    return { header, claims };
+  } catch {
+    throw createJwtError('Token could not be decoded', 'malformed');
+  }
+}
+
+const matchesAny = (value: string | string[] | undefined, expected: string | string[]) => {
+  const values = Array.isArray(value) ? value : value === undefined ? [] : [value];
+  const allowed = Array.isArray(expected) ? expected : [expected];
+  return values.some(candidate => allowed.includes(candidate));
+};
+
+// Check registered claims; throws the first failure
+export function validateClaims(
+  claims: JwtClaims,
+  { issuer, audience, clockTolerance = 60, requireExp = false, now = Date.now() }: Omit<JwtVerifyOptions, 'getKeys'>
+) {
+  const seconds = now / 1000;
+  // A NaN tolerance would make every exp and nbf comparison false
+  if (!Number.isFinite(clockTolerance) || clockTolerance < 0) {
+    throw createJwtError('Clock tolerance must be a non-negative number of seconds', 'config');
+  }
+
+  if (claims.exp === undefined && requireExp) {
+    throw createJwtError('Token has no exp claim', 'malformed');
+  }
+  if (claims.exp !== undefined) {
+    if (typeof claims.exp !== 'number') throw createJwtError('Invalid exp claim', 'malformed');
+    if (seconds - clockTolerance >= claims.exp) throw createJwtError('Token has expired', 'expired');
+  }
+  if (claims.nbf !== undefined) {
+    if (typeof claims.nbf !== 'number') throw createJwtError('Invalid nbf claim', 'malformed');
+    if (seconds + clockTolerance < claims.nbf) {
+      throw createJwtError('Token is not valid yet', 'not_yet_valid');
+    }
+  }
+  if (issuer !== undefined && !matchesAny(claims.iss, issuer)) {
+    throw createJwtError('Unexpected token issuer', 'invalid_issuer');
+  }
+  if (audience !== undefined && !matchesAny(claims.aud, audience)) {
+    throw createJwtError('Token is not meant for this audience', 'invalid_audience');
+  }
+}
+
+// Verify the signature and claims of a compact JWS; resolves with its claims
+export async function verifyJwt(token: string, options: JwtVerifyOptions): Promise<JwtClaims> {
+  const { header, claims } = decodeJwt(token);
+  const algorithm = ALGORITHMS[header.alg];
+  if (!algorithm) {
+    throw createJwtError(`Unsupported algorithm: ${header.alg}`, 'unsupported_algorithm');
+  }
+
+  const keys = await options.getKeys(header);
+  if (keys.length === 0) {
+    throw createJwtError('No signing key matches the token', 'unknown_key');
+  }
+
+  const [encodedHeader, encodedClaims, encodedSignature] = token.split('.');
+  const data = textEncoder.encode(`${encodedHeader}.${encodedClaims}`);
+  let signature: ArrayBuffer;
+  try {
+    signature = base64UrlDecode(encodedSignature).buffer as ArrayBuffer;
+  } catch {
+    throw createJwtError('Token signature could not be decoded', 'malformed');
+  }
+
+  let verified = false;
+  for (const key of keys) {
+    try {
+      verified = await crypto.subtle.verify(algorithm.verifyParams, key, signature, data);
+    } catch {
+      verified = false;
+    }
+    if (verified) break;
+  }
+  if (!verified) {
+    throw createJwtError('Token signature is invalid', 'invalid_signature');
+  }
+
+  validateClaims(claims, options);
+  return claims;
+}
+
+// Sign claims with a shared secret; public-key tokens are minted by the identity provider
+export async function signJwt(
+  claims: JwtClaims,
+  secret: string,
+  alg: 'HS256' | 'HS384' | 'HS512' = 'HS256'
+): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    textEncoder.encode(secret),
+    ALGORITHMS[alg].importParams,
+    false,
+    ['sign']
+  );
+  const encode = (value: object) => base64UrlEncode(textEncoder.encode(JSON.stringify(value)));
+  const data = `${encode({ alg, typ: 'JWT' })}.${encode(claims)}`;
+  const signature = await crypto.subtle.sign('HMAC', key, textEncoder.encode(data));
+  return `${data}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+interface KeyResolverOptions {
+  // Shared secret for HS* tokens
+  secret?: string;
+  // JSON Web Key Set, inline
+  jwks?: { keys: JsonWebKey[] };
+  // Location of a JWKS document; fetched and cached
+  jwksUrl?: string;
+  // Milliseconds a fetched JWKS is reused
+  cacheTime?: number;
+}
+
+type JwkWithId = JsonWebKey & { kid?: string };
+
+// Resolve keys from a shared secret and/or a JWKS. Imported keys are cached,
+// and an unknown kid triggers at most one JWKS refetch per minute.
+export function createKeyResolver({
+  secret,
+  jwks,
+  jwksUrl,
+  cacheTime = 10 * 60 * 1000,
+}: KeyResolverOptions): JwtKeyResolver {
+  if (!secret && !jwks && !jwksUrl) {
+    throw createJwtError('No JWT verification keys configured', 'config');
+  }
+
+  const imported = new Map<string, Promise<CryptoKey>>();
+  let fetched: { keys: JwkWithId[]; fetchedAt: number } | null = null;
+  let lastFetchAt = 0;
+
+  const importKey = (cacheKey: string, load: () => Promise<CryptoKey>) => {
+    if (!imported.has(cacheKey)) {
+      imported.set(cacheKey, load().catch((error) => {
+        imported.delete(cacheKey);
+        throw error;
+      }));
+    }
+    return imported.get(cacheKey)!;
+  };
+
+  const loadRemoteKeys = async (force: boolean): Promise<JwkWithId[]> => {
+    if (!jwksUrl) return [];
+    const now = Date.now();
+    const expired = !fetched || now - fetched.fetchedAt > cacheTime;
+    if (!expired && !(force && now - lastFetchAt > 60 * 1000)) {
+      return fetched!.keys;
+    }
+
+    lastFetchAt = now;
+    const response = await fetch(jwksUrl);
+    if (!response.ok) {
+      if (fetched) return fetched.keys;
+      throw createJwtError(`Failed to fetch JWKS: ${response.status}`, 'config');
+    }
+    const body = await response.json() as { keys?: JwkWithId[] };
+    fetched = { keys: body.keys ?? [], fetchedAt: now };
+    return fetched.keys;
+  };
+
+  const candidates = (keys: JwkWithId[], header: JwtHeader, algorithm: AlgorithmParams) =>
+    keys.filter(jwk =>
+      jwk.kty === algorithm.kty &&
+      (!jwk.alg || jwk.alg === header.alg) &&
+      (!jwk.use || jwk.use === 'sig') &&
+      (!header.kid || jwk.kid === header.kid)
+    );
+
+  return async (header) => {
+    const algorithm = ALGORITHMS[header.alg];
+    if (!algorithm) return [];
+
+    // A shared secret only ever verifies HMAC tokens, never public-key ones
+    const keys: Promise<CryptoKey>[] = [];
+    if (secret && algorithm.kty === 'oct') {
+      keys.push(importKey(`secret:${header.alg}`, () => crypto.subtle.importKey(
+        'raw',
+        textEncoder.encode(secret),
+        algorithm.importParams,
+        false,
+        ['verify']
+      )));
+    }
+
+    const local = candidates(jwks?.keys ?? [], header, algorithm);
+    let remote = candidates(await loadRemoteKeys(false), header, algorithm);
+    if (remote.length === 0 && header.kid && jwksUrl) {
+      remote = candidates(await loadRemoteKeys(true), header, algorithm);
+    }
+
+    [...local, ...remote].forEach((jwk) => {
+      const cacheKey = `jwk:${header.alg}:${jwk.kid ?? ''}:${jwk.n ?? jwk.x ?? jwk.k}`;
+      keys.push(importKey(cacheKey, () =>
+        crypto.subtle.importKey('jwk', jwk, algorithm.importParams, false, ['verify'])
+      ));
+    });
+
+    const settled = await Promise.allSettled(keys);
+    return settled
+      .filter((result): result is PromiseFulfilledResult<CryptoKey> => result.status === 'fulfilled')
+      .map(result => result.value);
+  };
+}
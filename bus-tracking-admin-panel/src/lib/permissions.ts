@@ -0,0 +1,196 @@
+// Role rules and the route-permission map, shared by the middleware and usePermissions
+
+import type { JwtClaims } from './jwt';
+import { ConditionResult, PermissionCondition, evaluateCondition } from './conditions';
+
+export type Permission = string;
+export type Role = string;
+export type Resource = string;
+export type Action = 'create' | 'read' | 'update' | 'delete' | 'manage' | string;
+
+export interface PermissionRule {
+  role: Role;
+  resource: Resource;
+  actions: Action[];
+  // Must hold for the check's context, e.g. 'user.depotId == resource.depotId'
+  conditions?: PermissionCondition;
+  // Limits the rule to one agency; rules without it apply to every tenant
+  tenantId?: string;
+}
+
+export interface PermissionCheck {
+  granted: boolean;
+  reason?: string;
+}
+
+// Replaces the built-in condition language; returning a ConditionResult keeps the reason
+export type ConditionEvaluator = (
+  conditions: PermissionCondition,
+  context: Record<string, any>
+) => ConditionResult | boolean;
+
+export interface RoutePermission {
+  // Matches the path and everything below it; `:name` segments match any value
+  path: string;
+  resource: Resource;
+  action: Action;
+}
+
+export const PERMISSION_RULES: PermissionRule[] = [
+  { role: 'admin', resource: 'dashboard', actions: ['manage'] },
+  { role: 'admin', resource: 'fleet', actions: ['manage'] },
+  { role: 'admin', resource: 'routes', actions: ['manage'] },
+  { role: 'admin', resource: 'alerts', actions: ['manage'] },
+  { role: 'admin', resource: 'reports', actions: ['manage'] },
+  { role: 'admin', resource: 'users', actions: ['manage'] },
+  { role: 'admin', resource: 'settings', actions: ['manage'] },
+
+  { role: 'dispatcher', resource: 'dashboard', actions: ['read'] },
+  { role: 'dispatcher', resource: 'fleet', actions: ['read', 'update'] },
+  { role: 'dispatcher', resource: 'routes', actions: ['read'] },
+  { role: 'dispatcher', resource: 'alerts', actions: ['read', 'update'] },
+  { role: 'dispatcher', resource: 'reports', actions: ['read'] },
+
+  // Supervisors see the whole fleet but only edit vehicles in their own depot
+  { role: 'supervisor', resource: 'dashboard', actions: ['read'] },
+  { role: 'supervisor', resource: 'fleet', actions: ['read'] },
+  {
+    role: 'supervisor',
+    resource: 'fleet',
+    actions: ['update'],
+    conditions: 'user.depotId == resource.depotId',
+  },
+  { role: 'supervisor', resource: 'alerts', actions: ['read'] },
+  { role: 'supervisor', resource: 'reports', actions: ['read'] },
+
+  { role: 'viewer', resource: 'dashboard', actions: ['read'] },
+  { role: 'viewer', resource: 'fleet', actions: ['read'] },
+  { role: 'viewer', resource: 'routes', actions: ['read'] },
+  { role: 'viewer', resource: 'reports', actions: ['read'] },
+];
+
+// Paths not listed here only require a signed-in user
+export const ROUTE_PERMISSIONS: RoutePermission[] = [
+  { path: '/dashboard', resource: 'dashboard', action: 'read' },
+  { path: '/fleet', resource: 'fleet', action: 'read' },
+  { path: '/routes', resource: 'routes', action: 'read' },
+  { path: '/alerts', resource: 'alerts', action: 'read' },
+  { path: '/alerts/rules', resource: 'alerts', action: 'update' },
+  { path: '/reports', resource: 'reports', action: 'read' },
+  { path: '/admin', resource: 'settings', action: 'read' },
+  { path: '/admin/settings', resource: 'settings', action: 'manage' },
+  { path: '/admin/users', resource: 'users', action: 'manage' },
+  { path: '/api/fleet', resource: 'fleet', action: 'read' },
+  { path: '/api/admin/users', resource: 'users', action: 'manage' },
+];
+
+const segments = (path: string) => path.split('/').filter(Boolean);
+
+const matchesRoute = (pathname: string, route: RoutePermission) => {
+  const pattern = segments(route.path);
+  const actual = segments(pathname);
+  return pattern.length <= actual.length &&
+    pattern.every((segment, i) => segment.startsWith(':') || segment === actual[i]);
+};
+
+// The most specific entry covering a path, or null when it has no requirement
+export function findRoutePermission(
+  pathname: string,
+  routes: RoutePermission[] = ROUTE_PERMISSIONS
+): RoutePermission | null {
+  return routes
+    .filter(route => matchesRoute(pathname, route))
+    .sort((a, b) => segments(b.path).length - segments(a.path).length)[0] ?? null;
+}
+
+// Rules that apply within a tenant; other agencies' rules never match
+export function rulesForTenant(
+  rules: PermissionRule[],
+  tenantId: string | null = null
+): PermissionRule[] {
+  return rules.filter(rule => !rule.tenantId || rule.tenantId === tenantId);
+}
+
+// Rules of the given roles that grant an action on a resource
+export function findMatchingRules(
+  roles: Role[],
+  rules: PermissionRule[],
+  resource: Resource,
+  action: Action
+): PermissionRule[] {
+  return rules.filter(rule =>
+    roles.includes(rule.role) &&
+    rule.resource === resource &&
+    (rule.actions.includes(action) || rule.actions.includes('manage'))
+  );
+}
+
+// Grant when any matching rule is unconditional or its conditions hold for the
+// context; otherwise explain which conditions failed
+export function checkPermissionRules(
+  roles: Role[],
+  rules: PermissionRule[],
+  resource: Resource,
+  action: Action,
+  context: Record<string, any> = {},
+  evaluate: ConditionEvaluator = evaluateCondition
+): PermissionCheck {
+  const matchingRules = findMatchingRules(roles, rules, resource, action);
+  if (matchingRules.length === 0) {
+    return {
+      granted: false,
+      reason: `No rule grants ${action} on ${resource} to ${roles.length ? roles.join(', ') : 'a user without roles'}`,
+    };
+  }
+
+  const reasons: string[] = [];
+  for (const rule of matchingRules) {
+    if (!rule.conditions) return { granted: true };
+
+    try {
+      const result = evaluate(rule.conditions, context);
+      if (typeof result === 'boolean' ? result : result.passed) return { granted: true };
+      reasons.push(`${rule.role}: ${typeof result === 'boolean' ? 'conditions not met' : result.reason}`);
+    } catch (error) {
+      // A malformed condition denies rather than grants
+      reasons.push(`${rule.role}: invalid condition (${error instanceof Error ? error.message : String(error)})`);
+    }
+  }
+
+  return {
+    granted: false,
+    reason: `Conditions not met for ${action} on ${resource}: ${[...new Set(reasons)].join('; ')}`,
+  };
+}
+
+// Route checks have no request context, so only unconditional rules grant access
+export function canAccessRoute(
+  pathname: string,
+  roles: Role[],
+  rules: PermissionRule[] = PERMISSION_RULES,
+  routes: RoutePermission[] = ROUTE_PERMISSIONS
+): boolean {
+  const route = findRoutePermission(pathname, routes);
+  if (!route) return true;
+  return findMatchingRules(roles, rules, route.resource, route.action)
+    .some(rule => !rule.conditions);
+}
+
+const toRoles = (value: unknown): Role[] =>
+  Array.isArray(value) ? value.filter((role): role is Role => typeof role === 'string') : [];
+
+// Roles from a verified token, as a `roles` array or a single `role`. Within a
+// tenant, a `tenantRoles` entry for it ({ [tenantId]: roles }) takes precedence.
+export function getRolesFromClaims(claims: JwtClaims, tenantId: string | null = null): Role[] {
+  const tenantRoles = claims.tenantRoles;
+  if (tenantId && tenantRoles && typeof tenantRoles === 'object') {
+    const roles = (tenantRoles as Record<string, unknown>)[tenantId];
+    if (roles !== undefined) {
+      return typeof roles === 'string' ? [roles] : toRoles(roles);
+    }
+  }
+  if (Array.isArray(claims.roles)) {
+    return toRoles(claims.roles);
+  }
+  return typeof claims.role === 'string' ? [claims.role] : [];
+}
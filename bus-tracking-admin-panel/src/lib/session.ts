@@ -0,0 +1,252 @@
+// Access/refresh token sessions. Access tokens are short-lived JWTs; refresh
+// tokens are opaque, single-use and rotated on every renewal. Presenting a
+// refresh token that was already rotated means it leaked, so its whole family
+// (every token descended from the same login) is revoked.
+
+import type { NextResponse } from 'next/server';
+import { JwtClaims, base64UrlEncode, signJwt } from './jwt';
+import { AUTH_COOKIE, SESSION_EXPIRES_COOKIE } from './auth';
+
+export const REFRESH_COOKIE = 'refresh_token';
+// The refresh cookie is only ever sent to the auth endpoints
+const REFRESH_COOKIE_PATH = '/api/auth';
+
+export interface RefreshTokenRecord {
+  tokenHash: string;
+  familyId: string;
+  // Claims copied into every access token of the session
+  claims: JwtClaims;
+  expiresAt: number;
+  // Absolute end of the session, however often it is renewed
+  sessionExpiresAt: number;
+  // Set once exchanged; presenting the token again means it was reused
+  rotatedAt: number | null;
+}
+
+export interface RefreshTokenStore {
+  get: (tokenHash: string) => Promise<RefreshTokenRecord | null>;
+  save: (record: RefreshTokenRecord) => Promise<void>;
+  // Resolves false if the token had already been rotated
+  markRotated: (tokenHash: string, rotatedAt: number) => Promise<boolean>;
+  revokeFamily: (familyId: string) => Promise<void>;
+}
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  accessExpiresAt: number;
+  refreshExpiresAt: number;
+}
+
+// 'superseded': rotated moments ago by a parallel request; the session itself is fine
+export type SessionErrorType = 'missing' | 'invalid' | 'expired' | 'reused' | 'superseded' | 'config';
+
+export interface SessionError extends Error {
+  type: SessionErrorType;
+}
+
+const createSessionError = (message: string, type: SessionErrorType): SessionError => {
+  const error = new Error(message) as SessionError;
+  error.type = type;
+  return error;
+};
+
+export const isSessionError = (error: unknown): error is SessionError =>
+  error instanceof Error && typeof (error as SessionError).type === 'string';
+
+// Single-instance store; deployments with several instances plug in a shared one
+export function createMemoryRefreshTokenStore(): RefreshTokenStore {
+  const records = new Map<string, RefreshTokenRecord>();
+
+  const prune = (now: number) => {
+    records.forEach((record, tokenHash) => {
+      if (record.expiresAt <= now) records.delete(tokenHash);
+    });
+  };
+
+  return {
+    get: async tokenHash => records.get(tokenHash) ?? null,
+    save: async (record) => {
+      prune(Date.now());
+      records.set(record.tokenHash, record);
+    },
+    markRotated: async (tokenHash, rotatedAt) => {
+      const record = records.get(tokenHash);
+      if (!record || record.rotatedAt !== null) return false;
+      records.set(tokenHash, { ...record, rotatedAt });
+      return true;
+    },
+    revokeFamily: async (familyId) => {
+      records.forEach((record, tokenHash) => {
+        if (record.familyId === familyId) records.delete(tokenHash);
+      });
+    },
+  };
+}
+
+let refreshTokenStore = createMemoryRefreshTokenStore();
+
+export function setRefreshTokenStore(store: RefreshTokenStore) {
+  refreshTokenStore = store;
+}
+
+// Parallel requests from one browser (the middleware's renewal redirect, the
+// session hook, prefetches after sleep) can present the same token at once.
+// Within this window the loser is told to pick up the winner's cookies instead
+// of being treated as reuse.
+const ROTATION_GRACE = 30 * 1000;
+
+const seconds = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// Lifetimes in seconds come from AUTH_ACCESS_TOKEN_TTL (default 15 minutes),
+// AUTH_REFRESH_TOKEN_TTL (default 12 hours, renewed on every rotation) and
+// AUTH_SESSION_MAX_AGE (default 24 hours). Tokens are signed with AUTH_JWT_SECRET.
+function getSessionConfig() {
+  const secret = process.env.AUTH_JWT_SECRET;
+  if (!secret) {
+    throw createSessionError('AUTH_JWT_SECRET is required to issue tokens', 'config');
+  }
+
+  return {
+    secret,
+    issuer: process.env.AUTH_JWT_ISSUER?.split(',')[0]?.trim() || undefined,
+    audience: process.env.AUTH_JWT_AUDIENCE?.split(',')[0]?.trim() || undefined,
+    accessTtl: seconds(process.env.AUTH_ACCESS_TOKEN_TTL, 15 * 60) * 1000,
+    refreshTtl: seconds(process.env.AUTH_REFRESH_TOKEN_TTL, 12 * 60 * 60) * 1000,
+    sessionMaxAge: seconds(process.env.AUTH_SESSION_MAX_AGE, 24 * 60 * 60) * 1000,
+  };
+}
+
+const randomToken = (bytes = 32) => base64UrlEncode(crypto.getRandomValues(new Uint8Array(bytes)));
+
+const hashToken = async (token: string) =>
+  base64UrlEncode(new Uint8Array(
+    await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token))
+  ));
+
+// Registered time claims are set per token, never carried over
+const sessionClaims = ({ exp: _exp, iat: _iat, nbf: _nbf, jti: _jti, ...claims }: JwtClaims) => claims;
+
+async function issueTokens(
+  claims: JwtClaims,
+  familyId: string,
+  sessionExpiresAt: number,
+  now: number
+): Promise<SessionTokens> {
+  const config = getSessionConfig();
+  const accessExpiresAt = Math.min(now + config.accessTtl, sessionExpiresAt);
+  const refreshExpiresAt = Math.min(now + config.refreshTtl, sessionExpiresAt);
+
+  const accessToken = await signJwt({
+    ...claims,
+    ...(config.issuer ? { iss: config.issuer } : {}),
+    ...(config.audience ? { aud: config.audience } : {}),
+    iat: Math.floor(now / 1000),
+    exp: Math.floor(accessExpiresAt / 1000),
+    jti: randomToken(12),
+  }, config.secret);
+
+  const refreshToken = randomToken();
+  await refreshTokenStore.save({
+    tokenHash: await hashToken(refreshToken),
+    familyId,
+    claims,
+    expiresAt: refreshExpiresAt,
+    sessionExpiresAt,
+    rotatedAt: null,
+  });
+
+  return { accessToken, refreshToken, accessExpiresAt, refreshExpiresAt };
+}
+
+// Start a session after login
+export async function createSession(claims: JwtClaims, now = Date.now()): Promise<SessionTokens> {
+  const { sessionMaxAge } = getSessionConfig();
+  return issueTokens(sessionClaims(claims), randomToken(16), now + sessionMaxAge, now);
+}
+
+// A token rotated just now lost a race; anything older leaked and takes its family down
+async function rotatedTokenError(record: RefreshTokenRecord, now: number): Promise<SessionError> {
+  if (record.rotatedAt !== null && now - record.rotatedAt <= ROTATION_GRACE) {
+    return createSessionError('Refresh token was just rotated', 'superseded');
+  }
+  await refreshTokenStore.revokeFamily(record.familyId);
+  return createSessionError('Refresh token was reused', 'reused');
+}
+
+// Exchange a refresh token for a new access token and a new refresh token
+export async function rotateSession(
+  refreshToken: string | undefined,
+  now = Date.now()
+): Promise<SessionTokens> {
+  if (!refreshToken) {
+    throw createSessionError('No refresh token', 'missing');
+  }
+
+  const tokenHash = await hashToken(refreshToken);
+  const record = await refreshTokenStore.get(tokenHash);
+  if (!record) {
+    throw createSessionError('Unknown refresh token', 'invalid');
+  }
+  if (record.rotatedAt !== null) {
+    throw await rotatedTokenError(record, now);
+  }
+  if (now >= record.expiresAt) {
+    throw createSessionError('Refresh token has expired', 'expired');
+  }
+
+  // Two requests racing with the same token: only one may win
+  if (!(await refreshTokenStore.markRotated(tokenHash, now))) {
+    throw await rotatedTokenError((await refreshTokenStore.get(tokenHash)) ?? record, now);
+  }
+
+  return issueTokens(record.claims, record.familyId, record.sessionExpiresAt, now);
+}
+
+// End the session a refresh token belongs to, e.g. on logout
+export async function revokeSession(refreshToken: string | undefined) {
+  if (!refreshToken) return;
+  const record = await refreshTokenStore.get(await hashToken(refreshToken));
+  if (record) {
+    await refreshTokenStore.revokeFamily(record.familyId);
+  }
+}
+
+export function setSessionCookies(response: NextResponse, tokens: SessionTokens) {
+  const secure = process.env.NODE_ENV === 'production';
+
+  // The access cookie outlives its token so the middleware can tell an expired
+  // session (and renew it) from a missing one
+  response.cookies.set(AUTH_COOKIE, tokens.accessToken, {
+    httpOnly: true,
+    secure,
+    sameSite: 'lax',
+    path: '/',
+    expires: new Date(tokens.refreshExpiresAt),
+  });
+  // Lax, not strict: renewal is often reached by redirect from a link opened in
+  // email or chat, and the cookie is only ever sent to the auth endpoints
+  response.cookies.set(REFRESH_COOKIE, tokens.refreshToken, {
+    httpOnly: true,
+    secure,
+    sameSite: 'lax',
+    path: REFRESH_COOKIE_PATH,
+    expires: new Date(tokens.refreshExpiresAt),
+  });
+  response.cookies.set(SESSION_EXPIRES_COOKIE, String(tokens.accessExpiresAt), {
+    secure,
+    sameSite: 'lax',
+    path: '/',
+    expires: new Date(tokens.refreshExpiresAt),
+  });
+}
+
+export function clearSessionCookies(response: NextResponse) {
+  response.cookies.delete(AUTH_COOKIE);
+  response.cookies.delete(SESSION_EXPIRES_COOKIE);
+  response.cookies.set(REFRESH_COOKIE, '', { path: REFRESH_COOKIE_PATH, maxAge: 0 });
+}
+
@@ -0,0 +1,98 @@
+// Tenant (transit agency) context shared by the middleware, API routes and client hooks
+
+import type { JwtClaims } from './jwt';
+
+// Request header naming the tenant. Client API calls send it; the middleware
+// checks it against the token and forwards the resolved tenant under the same name.
+export const TENANT_HEADER = 'x-tenant-id';
+
+export interface TenantConfig {
+  // Known tenant IDs; tenancy is off when empty
+  tenants: string[];
+  // Domain under which subdomains name a tenant, e.g. panel.example.com
+  rootDomain?: string;
+}
+
+export interface ResolvedTenant {
+  tenantId: string;
+  source: 'subdomain' | 'path' | 'header';
+  // Request path without the tenant prefix
+  pathname: string;
+}
+
+// Read from NEXT_PUBLIC_TENANTS (comma-separated IDs) and NEXT_PUBLIC_TENANT_ROOT_DOMAIN,
+// public so the browser resolves its tenant from the URL exactly as the middleware does
+export function getTenantConfig(): TenantConfig {
+  return {
+    tenants: (process.env.NEXT_PUBLIC_TENANTS ?? '')
+      .split(',')
+      .map(tenant => tenant.trim().toLowerCase())
+      .filter(Boolean),
+    rootDomain: process.env.NEXT_PUBLIC_TENANT_ROOT_DOMAIN?.toLowerCase() || undefined,
+  };
+}
+
+// Subdomain (metro.panel.example.com) wins over a path prefix (/metro/dashboard).
+// API calls without either name their tenant per request in the tenant header;
+// pages never fall back to it, so each tab keeps the agency in its own URL.
+export function resolveTenant(
+  { hostname, pathname, headerTenant }: { hostname: string; pathname: string; headerTenant?: string | null },
+  { tenants, rootDomain }: TenantConfig = getTenantConfig()
+): ResolvedTenant | null {
+  if (tenants.length === 0) return null;
+
+  const host = hostname.toLowerCase();
+  if (rootDomain && host.endsWith(`.${rootDomain}`)) {
+    const labels = host.slice(0, -(rootDomain.length + 1)).split('.');
+    const subdomain = labels[labels.length - 1];
+    if (tenants.includes(subdomain)) {
+      return { tenantId: subdomain, source: 'subdomain', pathname };
+    }
+  }
+
+  const [, first = '', ...rest] = pathname.split('/');
+  if (tenants.includes(first.toLowerCase())) {
+    return { tenantId: first.toLowerCase(), source: 'path', pathname: `/${rest.join('/')}` };
+  }
+
+  if (headerTenant && pathname.startsWith('/api/') && tenants.includes(headerTenant)) {
+    return { tenantId: headerTenant, source: 'header', pathname };
+  }
+  return null;
+}
+
+// Tokens name their agencies in a `tenant` or `tenants` claim
+export function isTenantAllowed(claims: JwtClaims, tenantId: string): boolean {
+  if (claims.tenant === tenantId) return true;
+  return Array.isArray(claims.tenants) && claims.tenants.includes(tenantId);
+}
+
+// Copy request headers, replacing any incoming tenant header with the resolved one
+export function withTenantHeader(headers: Headers, tenantId: string | null): Headers {
+  const forwarded = new Headers(headers);
+  forwarded.delete(TENANT_HEADER);
+  if (tenantId) {
+    forwarded.set(TENANT_HEADER, tenantId);
+  }
+  return forwarded;
+}
+
+// Tenant of the current page, read from this tab's URL; null on the server or without tenancy
+export function getTenantId(): string | null {
+  if (typeof window === 'undefined') return null;
+  const { hostname, pathname } = window.location;
+  return resolveTenant({ hostname, pathname })?.tenantId ?? null;
+}
+
+// Namespace a persistence key (storage key, cache prefix, database name) by tenant
+export function tenantKey(key: string, tenantId: string | null = getTenantId()): string {
+  return tenantId ? `${tenantId}:${key}` : key;
+}
+
+// Headers for API calls, which carry the page's tenant per request
+export function tenantHeaders(
+  headers: Record<string, string> = {},
+  tenantId: string | null = getTenantId()
+): Record<string, string> {
+  return tenantId ? { ...headers, [TENANT_HEADER]: tenantId } : headers;
+}